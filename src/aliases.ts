@@ -0,0 +1,161 @@
+// aliases.ts — optional alias resolution on resolved collections.
+//
+// Follows {dot.path} chains per mode, across collections, until a literal is
+// reached. Each hop reads the target collection's mode with the same name,
+// else its base mode (what Figma does for collections without an explicit
+// mode). Dangling references are reported and left as references, and so are
+// cycles (reported by validateVariables).
+
+import {
+  DTCGGroup,
+  DTCGToken,
+  aliasPath,
+  flattenTokens,
+  isAlias,
+  isLeaf,
+} from './dtcg';
+import { ResolvedCollection, getBaseMode } from './formats/shared';
+import { coerceScopedValue, scopeTypeFor } from './scopes';
+import { ExportIssue, ExportOptions, ScopeType } from './types';
+
+type ModeTokens = Map<string, DTCGToken>; // dot path -> token
+type CollectionLookup = {
+  collection: ResolvedCollection;
+  modes: Map<string, ModeTokens>; // mode name -> tokens
+  base: ModeTokens;
+};
+
+export function resolveAliases(
+  collections: ResolvedCollection[],
+  lookup: ResolvedCollection[],
+  options: ExportOptions,
+  issues: ExportIssue[]
+): ResolvedCollection[] {
+  // Which collection owns each path, plus its tokens per mode
+  const owners = new Map<string, CollectionLookup>();
+  for (const collection of lookup) {
+    const modes = new Map(
+      collection.modes.map((m) => [
+        m.name,
+        new Map(
+          flattenTokens(m.tokens).map((e) => [e.path.join('.'), e.token])
+        ),
+      ])
+    );
+    const entry: CollectionLookup = {
+      collection,
+      modes,
+      base: modes.get(getBaseMode(collection)?.name ?? '') ?? new Map(),
+    };
+    for (const path of Array.from(entry.base.keys())) {
+      if (!owners.has(path)) owners.set(path, entry);
+    }
+  }
+
+  const report = (issue: ExportIssue) => {
+    // Every mode walks the same chain; report each problem once
+    if (!issues.some((i) => i.message === issue.message)) issues.push(issue);
+  };
+
+  const follow = (
+    alias: string,
+    modeName: string,
+    chain: string[],
+    source: string
+  ): DTCGToken | undefined => {
+    const path = aliasPath(alias).join('.');
+    if (chain.includes(path)) return undefined;
+    const owner = owners.get(path);
+    const target = owner && (owner.modes.get(modeName) ?? owner.base).get(path);
+    if (!target) {
+      report({
+        severity: 'error',
+        message: `${source} (${modeName}) references missing token ${alias}`,
+        path: source,
+      });
+      return undefined;
+    }
+    return isAlias(target.$value)
+      ? follow(target.$value, modeName, [...chain, path], source)
+      : target;
+  };
+
+  const resolveGroup = (
+    group: DTCGGroup,
+    modeName: string,
+    prefix: string[]
+  ): DTCGGroup => {
+    const out: DTCGGroup = {};
+    for (const [key, value] of Object.entries(group)) {
+      const path = [...prefix, key];
+      if (!isLeaf(value)) {
+        out[key] = resolveGroup(value as DTCGGroup, modeName, path);
+        continue;
+      }
+      if (!isAlias(value.$value)) {
+        out[key] = value;
+        continue;
+      }
+      const source = path.join('.');
+      const target = follow(value.$value, modeName, [source], source);
+      if (target === undefined) {
+        out[key] = value; // reported above; keep the reference
+        continue;
+      }
+      const token: DTCGToken = {
+        ...value,
+        $value: matchUnits(value, target, options),
+      };
+      if (options.keepAliasReferences) {
+        token.$extensions = {
+          ...value.$extensions,
+          'com.figma': {
+            ...value.$extensions?.['com.figma'],
+            alias: value.$value,
+          },
+        };
+      }
+      out[key] = token;
+    }
+    return out;
+  };
+
+  return collections.map((collection) => ({
+    ...collection,
+    modes: collection.modes.map((mode) => ({
+      ...mode,
+      tokens: resolveGroup(mode.tokens, mode.name, []),
+    })),
+  }));
+}
+
+// The alias source decides type and unit: its own scopes are applied to the
+// target's literal (a px target feeding a rem font size, a plain 0–100 number
+// feeding an opacity, …)
+function matchUnits(
+  token: DTCGToken,
+  target: DTCGToken,
+  options: ExportOptions
+): any {
+  const scopeType = scopeTypeOf(token, options);
+  if (!scopeType) return target.$value;
+  // An opacity target was already converted to 0–1
+  if (scopeType === 'opacity' && scopeTypeOf(target, options) === 'opacity') {
+    return target.$value;
+  }
+  return coerceScopedValue(scopeType, target.$value, options.remBase).value;
+}
+
+function scopeTypeOf(
+  token: DTCGToken,
+  options: ExportOptions
+): ScopeType | undefined {
+  if (token.$type === 'color' || token.$type === 'boolean' || !token.$figma) {
+    return undefined;
+  }
+  const resolvedType =
+    token.$type === 'string' || token.$type === 'fontFamily'
+      ? 'STRING'
+      : 'FLOAT';
+  return scopeTypeFor(resolvedType, token.$figma.scopes, options.scopeTypes);
+}
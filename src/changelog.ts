@@ -0,0 +1,142 @@
+// changelog.ts — diff the current export against a previous one.
+//
+// Tokens are matched by Figma variable id ($extensions["com.figma"].variableId)
+// when both sides have it, else by dot path, so a renamed variable shows up as
+// a rename instead of a removal plus an addition.
+
+import { DTCGToken, flattenTokens, variableIdOf } from './dtcg';
+import { ResolvedCollection } from './formats/shared';
+import { ImportedCollection } from './import';
+import { TokenChange } from './types';
+
+export function diffTokens(
+  previous: ImportedCollection[],
+  current: ResolvedCollection[]
+): TokenChange[] {
+  const changes: TokenChange[] = [];
+
+  for (const collection of current) {
+    const before = previous.find(
+      (p) => p.name === collection.name || p.name === collection.slug
+    );
+
+    for (const mode of collection.modes) {
+      const prevTokens =
+        before?.modes.get(mode.name) ??
+        // Single-mode files carry no mode name
+        (collection.modes.length === 1
+          ? before?.modes.get(undefined)
+          : undefined) ??
+        new Map<string, DTCGToken>();
+
+      const prevById = new Map<string, string>();
+      prevTokens.forEach((token, path) => {
+        const id = variableIdOf(token as DTCGToken);
+        if (id) prevById.set(id, path);
+      });
+      const matched = new Set<string>();
+
+      for (const { path: segments, token } of flattenTokens(mode.tokens)) {
+        const path = segments.join('.');
+        const id = variableIdOf(token);
+        const prevPath =
+          (id && prevById.get(id)) ?? (prevTokens.has(path) ? path : undefined);
+        const base = { collection: collection.name, mode: mode.name, path };
+
+        if (prevPath === undefined) {
+          changes.push({ ...base, kind: 'added', after: token.$value });
+          continue;
+        }
+        matched.add(prevPath);
+        const prev = prevTokens.get(prevPath)!;
+        if (prevPath !== path) {
+          changes.push({ ...base, kind: 'renamed', previousPath: prevPath });
+        }
+        if (
+          prev.$type !== token.$type ||
+          JSON.stringify(prev.$value) !== JSON.stringify(token.$value)
+        ) {
+          changes.push({
+            ...base,
+            kind: 'changed',
+            before: prev.$value,
+            after: token.$value,
+          });
+        }
+      }
+
+      prevTokens.forEach((token, path) => {
+        if (matched.has(path)) return;
+        changes.push({
+          collection: collection.name,
+          mode: mode.name,
+          path,
+          kind: 'removed',
+          before: token.$value,
+        });
+      });
+    }
+  }
+
+  return changes;
+}
+
+// CHANGELOG.md grouped by collection; removals and renames come first as
+// they break consumers
+export function buildChangelog(changes: TokenChange[]): string {
+  const lines = [
+    '# Token changelog',
+    '',
+    `Compared with the previous export on ${new Date().toISOString().slice(0, 10)}.`,
+  ];
+  if (changes.length === 0) {
+    lines.push('', 'No token changes.');
+    return lines.join('\n') + '\n';
+  }
+
+  const collections = Array.from(new Set(changes.map((c) => c.collection)));
+  for (const collection of collections) {
+    const ofCollection = changes.filter((c) => c.collection === collection);
+    lines.push('', `## ${collection}`);
+
+    const section = (title: string, items: TokenChange[]) => {
+      // Added/removed/renamed usually apply to every mode; list each path once
+      const entries = Array.from(new Set(items.map(describe)));
+      if (entries.length === 0) return;
+      lines.push('', `### ${title}`, '', ...entries.map((e) => `- ${e}`));
+    };
+
+    section(
+      'Breaking',
+      ofCollection.filter((c) => c.kind === 'removed' || c.kind === 'renamed')
+    );
+    section(
+      'Added',
+      ofCollection.filter((c) => c.kind === 'added')
+    );
+    section(
+      'Changed',
+      ofCollection.filter((c) => c.kind === 'changed')
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function describe(change: TokenChange): string {
+  const path = `\`${change.path}\``;
+  switch (change.kind) {
+    case 'added':
+      return `Added ${path}`;
+    case 'removed':
+      return `Removed ${path}`;
+    case 'renamed':
+      return `Renamed \`${change.previousPath}\` → ${path}`;
+    case 'changed':
+      return `${path} (${change.mode}): ${literal(change.before)} → ${literal(change.after)}`;
+  }
+}
+
+function literal(value: any): string {
+  return `\`${typeof value === 'string' ? value : JSON.stringify(value)}\``;
+}
@@ -0,0 +1,144 @@
+// cli.ts — headless export for CI: Figma REST variables JSON → token files.
+//
+//   curl -H "X-Figma-Token: $FIGMA_TOKEN" \
+//     https://api.figma.com/v1/files/$FILE_KEY/variables/local > variables.json
+//   node build/cli.js variables.json --out tokens --formats dtcg,css
+//
+// Reads the GET /v1/files/:key/variables/local response from a file or stdin
+// and writes the same files the plugin's export would. Text / effect styles
+// are not part of that endpoint and are skipped. Built with `npm run build:cli`.
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { FORMATTERS } from './formats';
+import { exportCollections } from './pipeline';
+import { parseLocalVariablesResponse, restVariableSource } from './rest';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions, OutputFormat } from './types';
+
+const USAGE = `Usage: token-exporter [variables.json | -] [options]
+
+  --out <dir>              Output directory (default: tokens)
+  --collections <a,b>      Collection names or ids (default: all local ones)
+  --formats <a,b>          Output formats, e.g. dtcg,css,scss (default: dtcg)
+  --options <file.json>    ExportOptions overrides, as the plugin stores them
+  --help                   Show this help
+
+Without a file (or with -) the response is read from stdin.`;
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'tokens' },
+      collections: { type: 'string' },
+      formats: { type: 'string' },
+      options: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const input = positionals[0];
+  const json =
+    input && input !== '-' ? await readFile(input, 'utf8') : await readStdin();
+  const source = restVariableSource(parseLocalVariablesResponse(json));
+
+  const options = mergeOptions(
+    values.options
+      ? JSON.parse(await readFile(values.options, 'utf8'))
+      : undefined,
+    values.formats ? (list(values.formats) as OutputFormat[]) : undefined
+  );
+
+  if (options.usage !== 'all') {
+    console.error(
+      `warning: usage "${options.usage}" needs the document's nodes, exporting all variables`
+    );
+  }
+
+  const unknown = options.formats.filter((f) => !(f in FORMATTERS));
+  if (unknown.length > 0) {
+    console.error(
+      `Unknown format(s): ${unknown.join(', ')} — one of ${Object.keys(FORMATTERS).join(', ')}`
+    );
+    return 1;
+  }
+
+  const wanted = values.collections ? list(values.collections) : undefined;
+  const selected = source.collections
+    .filter((c) => !wanted || wanted.includes(c.id) || wanted.includes(c.name))
+    .map((c) => c.id);
+  if (selected.length === 0) {
+    console.error('No matching variable collections');
+    return 1;
+  }
+
+  const payload = await exportCollections(source, selected, options);
+  for (const issue of payload?.issues ?? []) {
+    console.error(
+      `${issue.severity}: ${issue.message}${issue.path ? ` (${issue.path})` : ''}`
+    );
+  }
+  if (!payload || payload.blocked) {
+    console.error('Export blocked by validation errors, no files written');
+    return 1;
+  }
+
+  for (const file of payload.files) {
+    const path = join(values.out, file.filename);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, file.content);
+    console.log(path);
+  }
+  return 0;
+}
+
+// Nested option groups (filter, naming, scopeTypes, baseModes, …) are merged
+// so a partial file keeps the other defaults; arrays replace the default
+function mergeOptions(
+  overrides: Partial<ExportOptions> = {},
+  formats?: OutputFormat[]
+): ExportOptions {
+  const options: Record<string, unknown> = { ...DEFAULT_EXPORT_OPTIONS };
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = options[key];
+    options[key] =
+      isRecord(current) && isRecord(value) ? { ...current, ...value } : value;
+  }
+  return {
+    ...(options as ExportOptions),
+    ...(formats ? { formats } : {}),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function list(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+  }
+);
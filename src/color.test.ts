@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { formatColor } from './color';
+import { DEFAULT_EXPORT_OPTIONS } from './types';
+
+const { colorFormat, colorPrecision } = DEFAULT_EXPORT_OPTIONS;
+
+test('writes near-opaque colours as hex by default', () => {
+  const color = { r: 1, g: 0.4, b: 0, a: 0.9995 };
+  assert.equal(formatColor(color, colorFormat, colorPrecision), '#ff6600');
+});
+
+test('rounds alpha to two decimals by default', () => {
+  const color = { r: 0, g: 0, b: 0, a: 0.12345 };
+  assert.equal(
+    formatColor(color, colorFormat, colorPrecision),
+    'rgba(0, 0, 0, 0.12)'
+  );
+  assert.equal(formatColor(color, colorFormat, 4), 'rgba(0, 0, 0, 0.1235)');
+});
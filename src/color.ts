@@ -0,0 +1,201 @@
+// color.ts — colour values in and out of the supported notations.
+//
+// Figma hands out sRGB channels in 0–1. Exports write them as one of the
+// ColorFormat notations; formats and the importer read any of them back.
+
+import { ColorFormat } from './types';
+
+export type ParsedColor = { r: number; g: number; b: number; a: number };
+
+// DTCG 2025 structured colour value
+export type DTCGColorValue = {
+  colorSpace: 'srgb';
+  components: [number, number, number];
+  alpha?: number;
+  hex?: string;
+};
+
+export function formatColor(
+  color: ParsedColor,
+  format: ColorFormat,
+  precision: number
+): string | DTCGColorValue {
+  const round = (n: number) => roundTo(n, precision);
+  const { r, g, b, a } = color;
+  // Figma's float alpha is often a hair under 1 for opaque colours
+  const opaque = a >= 0.999;
+  switch (format) {
+    case 'hex8':
+      return `#${toHexChannels(color, true)}`;
+    case 'hsl': {
+      const [h, s, l] = rgbToHsl(color);
+      const alpha = opaque ? '' : ` / ${round(a)}`;
+      return `hsl(${round(h)} ${round(s * 100)}% ${round(l * 100)}%${alpha})`;
+    }
+    case 'oklch': {
+      const [l, c, h] = rgbToOklch(color);
+      const alpha = opaque ? '' : ` / ${round(a)}`;
+      return `oklch(${round(l * 100)}% ${round(c)} ${round(h)}${alpha})`;
+    }
+    case 'dtcg-object': {
+      const value: DTCGColorValue = {
+        colorSpace: 'srgb',
+        components: [round(r), round(g), round(b)],
+      };
+      if (!opaque) value.alpha = round(a);
+      value.hex = `#${toHexChannels(color, false)}`;
+      return value;
+    }
+    default: {
+      if (opaque) return `#${toHexChannels(color, false)}`;
+      const [r8, g8, b8] = [r, g, b].map((c) => Math.round(c * 255));
+      return `rgba(${r8}, ${g8}, ${b8}, ${round(a)})`;
+    }
+  }
+}
+
+// Any notation formatColor writes (and the DTCG object) -> channels in 0–1
+export function parseColor(value: any): ParsedColor | undefined {
+  if (isColorObject(value)) {
+    const [r, g, b] = value.components.map(Number);
+    return { r, g, b, a: value.alpha ?? 1 };
+  }
+  if (typeof value !== 'string') return undefined;
+  const hex = value.match(/^#([0-9a-f]{6})([0-9a-f]{2})?$/i);
+  if (hex) {
+    const n = parseInt(hex[1], 16);
+    return {
+      r: ((n >> 16) & 255) / 255,
+      g: ((n >> 8) & 255) / 255,
+      b: (n & 255) / 255,
+      a: hex[2] ? parseInt(hex[2], 16) / 255 : 1,
+    };
+  }
+  const fn = value.trim().match(/^(rgba?|hsla?|oklch)\(([^)]+)\)$/i);
+  if (!fn) return undefined;
+  // "r, g, b, a" and "r g b / a" both split into channels
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+  const [x, y, z] = parts.map((part) => parseFloat(part));
+  const a = parts[3] === undefined ? 1 : parseAlpha(parts[3]);
+  switch (fn[1].toLowerCase()) {
+    case 'oklch': {
+      const l = parts[0].endsWith('%') ? x / 100 : x;
+      return { ...oklchToRgb(l, y, z), a };
+    }
+    case 'hsl':
+    case 'hsla':
+      return { ...hslToRgb(x, y / 100, z / 100), a };
+    default:
+      return { r: x / 255, g: y / 255, b: z / 255, a };
+  }
+}
+
+// CSS notation for a colour token value; the DTCG object becomes hex / rgba
+export function toCssColor(value: any): string {
+  if (!isColorObject(value)) return String(value);
+  const color = parseColor(value);
+  return color ? (formatColor(color, 'hex', 4) as string) : String(value);
+}
+
+function isColorObject(value: any): value is DTCGColorValue {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Array.isArray(value.components)
+  );
+}
+
+// "50%" / "0.5" -> 0.5
+function parseAlpha(part: string): number {
+  const n = parseFloat(part);
+  return part.endsWith('%') ? n / 100 : n;
+}
+
+function toHexChannels({ r, g, b, a }: ParsedColor, alpha: boolean): string {
+  return (alpha ? [r, g, b, a] : [r, g, b])
+    .map((c) =>
+      Math.round(Math.min(1, Math.max(0, c)) * 255)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('');
+}
+
+function roundTo(n: number, precision: number): number {
+  const f = Math.pow(10, precision);
+  return Math.round(n * f) / f;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Colour space conversions (sRGB <-> HSL, sRGB <-> OKLCH)
+// ───────────────────────────────────────────────────────────────────────────────
+
+function rgbToHsl({ r, g, b }: ParsedColor): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [0, 0, l];
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return [(h * 60 + 360) % 360, s, l];
+}
+
+function hslToRgb(h: number, s: number, l: number) {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] =
+    h < 60
+      ? [c, x, 0]
+      : h < 120
+        ? [x, c, 0]
+        : h < 180
+          ? [0, c, x]
+          : h < 240
+            ? [0, x, c]
+            : h < 300
+              ? [x, 0, c]
+              : [c, 0, x];
+  return { r: r + m, g: g + m, b: b + m };
+}
+
+// https://bottosson.github.io/posts/oklab/
+function rgbToOklch(color: ParsedColor): [number, number, number] {
+  const [r, g, b] = [color.r, color.g, color.b].map(toLinear);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  const C = Math.sqrt(A * A + B * B);
+  // Greys have no meaningful hue
+  const h = C < 1e-4 ? 0 : ((Math.atan2(B, A) * 180) / Math.PI + 360) % 360;
+  return [L, C, h];
+}
+
+function oklchToRgb(L: number, C: number, h: number) {
+  const A = C * Math.cos((h * Math.PI) / 180);
+  const B = C * Math.sin((h * Math.PI) / 180);
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3);
+  const [r, g, b] = [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ].map((c) => Math.min(1, Math.max(0, fromLinear(c))));
+  return { r, g, b };
+}
+
+function toLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
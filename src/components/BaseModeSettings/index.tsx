@@ -0,0 +1,41 @@
+import { h } from 'preact';
+import { Dropdown } from '@create-figma-plugin/ui';
+import { ExportOptions, VariableCollectionSummary } from '../../types';
+import styles from './BaseModeSettings.module.css';
+
+export interface BaseModeSettingsProps {
+  collections: VariableCollectionSummary[]; // the ones being exported
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+}
+
+// Base mode per multi-mode collection; other modes are layered on it
+export default function BaseModeSettings({
+  collections,
+  options,
+  onChange,
+}: BaseModeSettingsProps) {
+  const multiMode = collections.filter((c) => c.modes.length > 1);
+  if (multiMode.length === 0) return null;
+
+  return (
+    <div className={styles.baseModes}>
+      <p>Base mode</p>
+      {multiMode.map((collection) => (
+        <div key={collection.id} className={styles.row}>
+          <span>{collection.name}</span>
+          <Dropdown
+            options={collection.modes.map((mode) => ({ value: mode }))}
+            value={options.baseModes[collection.id] ?? collection.defaultMode}
+            onValueChange={(mode) =>
+              onChange({
+                ...options,
+                baseModes: { ...options.baseModes, [collection.id]: mode },
+              })
+            }
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { h } from 'preact';
+import { TokenChange } from '../../types';
+import styles from './ChangeSummary.module.css';
+
+const KIND_LABELS: Record<TokenChange['kind'], string> = {
+  added: 'added',
+  removed: 'removed',
+  renamed: 'renamed',
+  changed: 'value changes',
+};
+
+export interface ChangeSummaryProps {
+  changes: TokenChange[] | undefined;
+}
+
+export default function ChangeSummary({ changes }: ChangeSummaryProps) {
+  if (!changes) return null;
+
+  const counts = (Object.keys(KIND_LABELS) as TokenChange['kind'][])
+    .map((kind) => ({
+      kind,
+      count: changes.filter((c) => c.kind === kind).length,
+    }))
+    .filter(({ count }) => count > 0)
+    .map(({ kind, count }) => `${count} ${KIND_LABELS[kind]}`);
+  const breaking = changes.some(
+    (c) => c.kind === 'removed' || c.kind === 'renamed'
+  );
+
+  return (
+    <div className={styles.summary}>
+      <p>
+        {counts.length > 0
+          ? `CHANGELOG.md: ${counts.join(', ')}`
+          : 'CHANGELOG.md: no token changes'}
+      </p>
+      {breaking && (
+        <p className={styles.breaking}>
+          Includes removed or renamed tokens (breaking)
+        </p>
+      )}
+    </div>
+  );
+}
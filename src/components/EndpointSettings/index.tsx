@@ -0,0 +1,109 @@
+import { h } from 'preact';
+import { useState } from 'preact/hooks';
+import {
+  Textbox,
+  TextboxMultiline,
+  TextboxNumeric,
+} from '@create-figma-plugin/ui';
+import { Button, Checkbox } from '@object-ui/components';
+import { WebhookResult, WebhookSettings } from '../../types';
+import styles from './EndpointSettings.module.css';
+
+export type SendStatus =
+  | { state: 'idle' }
+  | { state: 'sending' }
+  | { state: 'done'; result: WebhookResult }
+  | { state: 'error'; message: string };
+
+export interface EndpointSettingsProps {
+  settings: WebhookSettings;
+  onChange: (settings: WebhookSettings) => void;
+  status: SendStatus;
+  disabled: boolean;
+  onSend: () => void;
+}
+
+export default function EndpointSettings({
+  settings,
+  onChange,
+  status,
+  disabled,
+  onSend,
+}: EndpointSettingsProps) {
+  const [retries, setRetries] = useState(String(settings.retries));
+  const set = (next: Partial<WebhookSettings>) =>
+    onChange({ ...settings, ...next });
+
+  return (
+    <div className={styles.endpoint}>
+      <p>Send to endpoint</p>
+      <Textbox
+        placeholder="https://tokens.example.com/ingest"
+        value={settings.url}
+        onValueInput={(url) => set({ url })}
+      />
+      <TextboxMultiline
+        rows={2}
+        placeholder="Authorization: Bearer …"
+        value={settings.headers}
+        onValueInput={(headers) => set({ headers })}
+      />
+      <TextboxNumeric
+        value={retries}
+        integer
+        minimum={0}
+        maximum={5}
+        suffix=" retries"
+        onValueInput={setRetries}
+        onNumericValueInput={(value) => {
+          if (value !== null) set({ retries: value });
+        }}
+      />
+      <Checkbox
+        id="webhook-dry-run"
+        label="Dry run (show the request, don't send it)"
+        checked={settings.dryRun}
+        onChange={() => set({ dryRun: !settings.dryRun })}
+      />
+      <Button
+        fullWidth
+        disabled={
+          disabled || status.state === 'sending' || !settings.url.trim()
+        }
+        onClick={onSend}
+      >
+        {status.state === 'sending'
+          ? 'Sending…'
+          : settings.dryRun
+            ? 'Build request'
+            : 'Send to endpoint'}
+      </Button>
+      {status.state === 'done' && (
+        <div className={styles.result}>
+          {status.result.dryRun ? (
+            <p>Dry run — nothing was sent</p>
+          ) : (
+            <p
+              className={
+                status.result.status !== undefined &&
+                status.result.status >= 400
+                  ? styles.error
+                  : undefined
+              }
+            >
+              HTTP {status.result.status} {status.result.statusText} after{' '}
+              {status.result.attempts} attempt
+              {status.result.attempts === 1 ? '' : 's'}
+            </p>
+          )}
+          {status.result.body && (
+            <pre className={styles.body}>{status.result.body}</pre>
+          )}
+        </div>
+      )}
+      {status.state === 'error' && (
+        <p className={`${styles.result} ${styles.error}`}>{status.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { h } from 'preact';
+import { useState } from 'preact/hooks';
+import {
+  Dropdown,
+  DropdownOption,
+  Textbox,
+  TextboxNumeric,
+} from '@create-figma-plugin/ui';
+import { Checkbox } from '@object-ui/components';
+import {
+  AliasOutput,
+  ColorFormat,
+  CssThemeSelector,
+  ExportOptions,
+  JsonLayout,
+  OutputFormat,
+} from '../../types';
+import NamingSettings from '../NamingSettings';
+import ScopeTypeSettings from '../ScopeTypeSettings';
+import styles from './ExportSettings.module.css';
+
+const FORMAT_LABELS: Record<OutputFormat, string> = {
+  dtcg: 'DTCG JSON',
+  css: 'CSS custom properties',
+  scss: 'SCSS variables & maps',
+  less: 'Less variables & maps',
+  typescript: 'TypeScript module',
+  swift: 'Swift / SwiftUI',
+  'android-xml': 'Android XML resources',
+  compose: 'Jetpack Compose',
+  tailwind: 'Tailwind CSS preset',
+};
+
+const CSS_THEME_SELECTOR_OPTIONS: Array<DropdownOption> = [
+  { value: 'data-attribute', text: 'Modes as [data-theme="…"]' },
+  { value: 'media-query', text: 'Light/dark as prefers-color-scheme' },
+];
+
+const JSON_LAYOUT_OPTIONS: Array<DropdownOption> = [
+  { value: 'per-mode', text: 'One JSON file per mode' },
+  { value: 'per-collection', text: 'One JSON file per collection (all modes)' },
+];
+
+const COLOR_FORMAT_OPTIONS: Array<DropdownOption> = [
+  { value: 'hex', text: 'Hex (rgba() when translucent)' },
+  { value: 'hex8', text: 'Hex with alpha (#rrggbbaa)' },
+  { value: 'hsl', text: 'hsl()' },
+  { value: 'oklch', text: 'oklch()' },
+  { value: 'dtcg-object', text: 'DTCG colour object' },
+];
+
+const ALIAS_OUTPUT_OPTIONS: Array<DropdownOption> = [
+  { value: 'reference', text: 'Keep aliases as references' },
+  { value: 'resolve', text: 'Resolve aliases to values' },
+];
+
+export interface ExportSettingsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+}
+
+export default function ExportSettings({
+  options,
+  onChange,
+}: ExportSettingsProps) {
+  const [colorPrecision, setColorPrecision] = useState(
+    String(options.colorPrecision)
+  );
+
+  const toggleFormat = (format: OutputFormat) => {
+    const formats = options.formats.includes(format)
+      ? options.formats.filter((f) => f !== format)
+      : [...options.formats, format];
+    onChange({ ...options, formats });
+  };
+
+  return (
+    <div className={styles.settings}>
+      <p>Output formats</p>
+      {(Object.keys(FORMAT_LABELS) as OutputFormat[]).map((format) => (
+        <Checkbox
+          key={format}
+          id={`format-${format}`}
+          label={FORMAT_LABELS[format]}
+          checked={options.formats.includes(format)}
+          onChange={() => toggleFormat(format)}
+        />
+      ))}
+      {options.formats.includes('dtcg') && (
+        <Dropdown
+          options={JSON_LAYOUT_OPTIONS}
+          value={options.jsonLayout}
+          onValueChange={(value) =>
+            onChange({ ...options, jsonLayout: value as JsonLayout })
+          }
+        />
+      )}
+      {options.formats.includes('dtcg') &&
+        options.jsonLayout === 'per-mode' && (
+          <Checkbox
+            id="overrides-only"
+            label="Other modes only hold tokens that differ from the base"
+            checked={options.overridesOnly}
+            onChange={() =>
+              onChange({ ...options, overridesOnly: !options.overridesOnly })
+            }
+          />
+        )}
+      {options.formats.includes('dtcg') && (
+        <Checkbox
+          id="include-styles"
+          label="Include text, effect & grid styles"
+          checked={options.includeStyles}
+          onChange={() =>
+            onChange({ ...options, includeStyles: !options.includeStyles })
+          }
+        />
+      )}
+      {(options.formats.includes('css') ||
+        options.formats.includes('tailwind')) && (
+        <Dropdown
+          options={CSS_THEME_SELECTOR_OPTIONS}
+          value={options.cssThemeSelector}
+          onValueChange={(value) =>
+            onChange({
+              ...options,
+              cssThemeSelector: value as CssThemeSelector,
+            })
+          }
+        />
+      )}
+      <p>Colours</p>
+      <Dropdown
+        options={COLOR_FORMAT_OPTIONS}
+        value={options.colorFormat}
+        onValueChange={(value) =>
+          onChange({ ...options, colorFormat: value as ColorFormat })
+        }
+      />
+      <TextboxNumeric
+        integer
+        minimum={0}
+        maximum={6}
+        suffix=" decimals"
+        value={colorPrecision}
+        onValueInput={setColorPrecision}
+        onNumericValueInput={(value) => {
+          if (value !== null) onChange({ ...options, colorPrecision: value });
+        }}
+      />
+      <p>Aliases</p>
+      <Dropdown
+        options={ALIAS_OUTPUT_OPTIONS}
+        value={options.aliases}
+        onValueChange={(value) =>
+          onChange({ ...options, aliases: value as AliasOutput })
+        }
+      />
+      <Textbox
+        placeholder="Library alias prefix (e.g. core)"
+        value={options.remoteAliasPrefix}
+        onValueInput={(value) =>
+          onChange({ ...options, remoteAliasPrefix: value })
+        }
+      />
+      {options.aliases === 'resolve' && (
+        <Checkbox
+          id="keep-alias-references"
+          label="Keep original reference in $extensions"
+          checked={options.keepAliasReferences}
+          onChange={() =>
+            onChange({
+              ...options,
+              keepAliasReferences: !options.keepAliasReferences,
+            })
+          }
+        />
+      )}
+      <NamingSettings options={options} onChange={onChange} />
+      <ScopeTypeSettings options={options} onChange={onChange} />
+      <Checkbox
+        id="block-on-errors"
+        label="Block export on errors"
+        checked={options.blockOnErrors}
+        onChange={() =>
+          onChange({ ...options, blockOnErrors: !options.blockOnErrors })
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { h } from 'preact';
+import { useState } from 'preact/hooks';
+import { Dropdown } from '@create-figma-plugin/ui';
+import { Button, Group } from '@object-ui/components';
+import Editor from 'react-simple-code-editor';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-clike';
+import 'prismjs/components/prism-markup';
+import 'prismjs/components/prism-css';
+import 'prismjs/components/prism-scss';
+import 'prismjs/components/prism-less';
+import 'prismjs/components/prism-javascript';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-swift';
+import 'prismjs/components/prism-kotlin';
+import 'prismjs/components/prism-markdown';
+import 'prismjs/themes/prism.css';
+import { ExportFile } from '../../types';
+import styles from './FilePreview.module.css';
+
+// File extension -> Prism grammar
+const LANGUAGES: Record<string, string> = {
+  json: 'json',
+  css: 'css',
+  scss: 'scss',
+  less: 'less',
+  ts: 'typescript',
+  js: 'javascript',
+  swift: 'swift',
+  kt: 'kotlin',
+  xml: 'markup',
+  md: 'markdown',
+};
+
+function highlight(code: string, filename: string): string {
+  const ext = filename.split('.').pop() ?? '';
+  const grammar = Prism.languages[LANGUAGES[ext]];
+  return grammar
+    ? Prism.highlight(code, grammar, LANGUAGES[ext])
+    : code.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+}
+
+// navigator.clipboard is not available in every plugin iframe; fall back to a
+// hidden textarea + execCommand
+async function copyToClipboard(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    const textarea = document.createElement('textarea');
+    textarea.value = text;
+    textarea.style.position = 'fixed';
+    textarea.style.opacity = '0';
+    document.body.appendChild(textarea);
+    textarea.select();
+    document.execCommand('copy');
+    document.body.removeChild(textarea);
+  }
+}
+
+export interface FilePreviewProps {
+  files: ExportFile[];
+  onDownload: (content: string, filename: string) => void;
+}
+
+export default function FilePreview({ files, onDownload }: FilePreviewProps) {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  if (files.length === 0) return null;
+  const file = files.find((f) => f.filename === selected) ?? files[0];
+
+  return (
+    <div className={styles.preview}>
+      <Dropdown
+        options={files.map((f) => ({ value: f.filename }))}
+        value={file.filename}
+        onValueChange={(value) => {
+          setSelected(value);
+          setCopied(false);
+        }}
+      />
+      <div className={styles.code}>
+        <Editor
+          value={file.content}
+          onValueChange={() => {}}
+          highlight={(code) => highlight(code, file.filename)}
+          padding={8}
+          readOnly
+          className={styles.editor}
+        />
+      </div>
+      <Group>
+        <Button
+          fullWidth
+          onClick={async () => {
+            await copyToClipboard(file.content);
+            setCopied(true);
+          }}
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button
+          fullWidth
+          onClick={() =>
+            onDownload(file.content, file.filename.split('/').pop()!)
+          }
+        >
+          Download file
+        </Button>
+      </Group>
+    </div>
+  );
+}
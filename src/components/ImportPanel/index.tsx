@@ -0,0 +1,124 @@
+import { h } from 'preact';
+import { useState, useEffect } from 'preact/hooks';
+import { TextboxMultiline } from '@create-figma-plugin/ui';
+import { emit, on } from '@create-figma-plugin/utilities';
+import { Button, Checkbox } from '@object-ui/components';
+import { readTokenFiles } from '../../read-files';
+import {
+  ExportFile,
+  ImportChange,
+  ImportOptions,
+  ImportResult,
+} from '../../types';
+import styles from './ImportPanel.module.css';
+
+function describeChange(c: ImportChange): string {
+  const target =
+    c.kind === 'collection' ? c.name : `${c.collection} / ${c.name}`;
+  return `${c.action} ${c.kind} ${target}${c.detail ? ` — ${c.detail}` : ''}`;
+}
+
+type ImportPanelProps = {
+  // The current export settings, for files that do not record theirs
+  settings: Omit<ImportOptions, 'deleteMissing'>;
+};
+
+export default function ImportPanel({ settings }: ImportPanelProps) {
+  const [pasted, setPasted] = useState('');
+  const [uploaded, setUploaded] = useState<ExportFile[]>([]);
+  const [deleteMissing, setDeleteMissing] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => on('IMPORT_RESULT', setResult), []);
+
+  const files = pasted.trim()
+    ? [...uploaded, { filename: 'pasted.json', content: pasted }]
+    : uploaded;
+  const canApply =
+    result !== null &&
+    !result.applied &&
+    !result.error &&
+    result.changes.some((c) => c.action !== 'skip');
+
+  return (
+    <div className={styles.panel}>
+      <p>Paste DTCG JSON or upload exported files (.json / .zip)</p>
+      <TextboxMultiline
+        rows={6}
+        placeholder='{ "tokens": { … } }'
+        value={pasted}
+        onValueInput={(value) => {
+          setPasted(value);
+          setResult(null);
+        }}
+      />
+      <input
+        type="file"
+        multiple
+        accept=".json,.zip"
+        onChange={async (event) => {
+          const input = event.currentTarget;
+          try {
+            setUploaded(input.files ? await readTokenFiles(input.files) : []);
+            setResult(null);
+          } catch (err) {
+            setUploaded([]);
+            setResult({
+              applied: false,
+              changes: [],
+              error: `Could not read the files: ${err instanceof Error ? err.message : String(err)}`,
+            });
+          }
+        }}
+      />
+      <Checkbox
+        id="import-delete-missing"
+        label="Delete variables missing from the import"
+        checked={deleteMissing}
+        onChange={() => {
+          setDeleteMissing(!deleteMissing);
+          setResult(null);
+        }}
+      />
+      <Button
+        fullWidth
+        disabled={files.length === 0}
+        onClick={() =>
+          emit('PREVIEW_IMPORT', files, { ...settings, deleteMissing })
+        }
+      >
+        Preview changes
+      </Button>
+      {result && (
+        <div className={styles.result}>
+          {result.error ? (
+            <p className={styles.error}>{result.error}</p>
+          ) : (
+            <p>
+              {result.applied ? 'Applied' : 'Dry run:'} {result.changes.length}{' '}
+              change{result.changes.length === 1 ? '' : 's'}
+            </p>
+          )}
+          <ul className={styles.changes}>
+            {result.changes.map((c, i) => (
+              <li key={i} className={styles[c.action]}>
+                {describeChange(c)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <Button
+        fullWidth
+        color="primary"
+        signal="success"
+        disabled={!canApply}
+        onClick={() =>
+          emit('APPLY_IMPORT', files, { ...settings, deleteMissing })
+        }
+      >
+        Apply
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { h } from 'preact';
+import { useEffect, useState } from 'preact/hooks';
+import { SegmentedControl } from '@create-figma-plugin/ui';
+import { on } from '@create-figma-plugin/utilities';
+import { BoundToken, BoundTokenGroup } from '../../types';
+import styles from './InspectPanel.module.css';
+
+type Platform = keyof BoundToken['snippets'];
+
+const GROUPS: BoundTokenGroup[] = [
+  'Fill',
+  'Stroke',
+  'Spacing',
+  'Radius',
+  'Size',
+  'Typography',
+  'Effect',
+  'Other',
+];
+
+export interface InspectPanelProps {
+  tokens: BoundToken[]; // for the selection the panel opened with
+}
+
+export default function InspectPanel({
+  tokens: initialTokens,
+}: InspectPanelProps) {
+  const [tokens, setTokens] = useState(initialTokens);
+  const [platform, setPlatform] = useState<Platform>('css');
+
+  // Sent whenever the selection changes
+  useEffect(() => on('SET_BOUND_TOKENS', setTokens), []);
+
+  return (
+    <div className={styles.panel}>
+      <SegmentedControl
+        value={platform}
+        options={[{ value: 'css' }, { value: 'swift' }, { value: 'compose' }]}
+        onValueChange={(value) => setPlatform(value as Platform)}
+      />
+      {tokens.length === 0 && <p>Select a layer with variables bound to it</p>}
+      {GROUPS.map((group) => {
+        const inGroup = tokens.filter((t) => t.group === group);
+        if (inGroup.length === 0) return null;
+        return (
+          <div key={group}>
+            <p>{group}</p>
+            <ul className={styles.group}>
+              {inGroup.map((token) => (
+                <li
+                  key={`${token.nodeName}:${token.field}:${token.variableId}`}
+                  className={styles.token}
+                >
+                  <span className={styles.path}>{token.path}</span>
+                  <span className={styles.detail}>
+                    {token.field} · {token.collection} / {token.name}
+                  </span>
+                  <code className={styles.snippet}>
+                    {token.snippets[platform]}
+                  </code>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { h } from 'preact';
+import { ExportIssue } from '../../types';
+import styles from './IssueList.module.css';
+
+export interface IssueListProps {
+  issues: ExportIssue[];
+  blocked?: boolean; // export stopped because of errors
+}
+
+export default function IssueList({ issues, blocked }: IssueListProps) {
+  if (issues.length === 0) return null;
+
+  const errors = issues.filter((i) => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div className={styles.issues}>
+      <p>
+        {errors} error{errors === 1 ? '' : 's'}, {warnings} warning
+        {warnings === 1 ? '' : 's'}
+      </p>
+      {blocked && (
+        <p className={styles.error}>
+          Export blocked — fix the errors or turn off “Block export on errors”.
+        </p>
+      )}
+      <ul className={styles.list}>
+        {issues.map((issue, i) => (
+          <li key={i} className={styles[issue.severity]}>
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
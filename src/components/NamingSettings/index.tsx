@@ -0,0 +1,72 @@
+import { h } from 'preact';
+import { useState } from 'preact/hooks';
+import {
+  Dropdown,
+  DropdownOption,
+  Textbox,
+  TextboxNumeric,
+} from '@create-figma-plugin/ui';
+import { toTokenPath } from '../../naming';
+import { ExportOptions, NamingOptions, PathCase } from '../../types';
+import styles from './NamingSettings.module.css';
+
+const PATH_CASE_OPTIONS: Array<DropdownOption> = [
+  { value: 'lower', text: 'lowercase (color.bg.surface)' },
+  { value: 'kebab', text: 'kebab-case (color.bg-surface)' },
+  { value: 'camel', text: 'camelCase (color.bgSurface)' },
+  { value: 'snake', text: 'snake_case (color.bg_surface)' },
+  { value: 'preserve', text: 'As named in Figma' },
+];
+
+const EXAMPLE_NAME = 'Primitives/Color/Bg Surface';
+
+export interface NamingSettingsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+}
+
+export default function NamingSettings({
+  options,
+  onChange,
+}: NamingSettingsProps) {
+  const { naming } = options;
+  const [stripSegments, setStripSegments] = useState(
+    String(naming.stripSegments)
+  );
+  const setNaming = (next: Partial<NamingOptions>) =>
+    onChange({ ...options, naming: { ...naming, ...next } });
+
+  return (
+    <div className={styles.naming}>
+      <p>Naming</p>
+      <Dropdown
+        options={PATH_CASE_OPTIONS}
+        value={naming.pathCase}
+        onValueChange={(value) => setNaming({ pathCase: value as PathCase })}
+      />
+      <Textbox
+        placeholder="Path prefix (e.g. ds)"
+        value={naming.prefix}
+        onValueInput={(prefix) => setNaming({ prefix })}
+      />
+      <TextboxNumeric
+        integer
+        minimum={0}
+        suffix=" leading groups stripped"
+        value={stripSegments}
+        onValueInput={setStripSegments}
+        onNumericValueInput={(value) => {
+          if (value !== null) setNaming({ stripSegments: value });
+        }}
+      />
+      <Textbox
+        placeholder="tokens.{collection}.{mode}.json"
+        value={naming.filenameTemplate}
+        onValueInput={(filenameTemplate) => setNaming({ filenameTemplate })}
+      />
+      <p className={styles.example}>
+        {EXAMPLE_NAME} → {toTokenPath(EXAMPLE_NAME, naming).join('.')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { h } from 'preact';
+import { Dropdown, DropdownOption, Textbox } from '@create-figma-plugin/ui';
+import { Button } from '@object-ui/components';
+import {
+  DEFAULT_API_URLS,
+  GitProvider,
+  GitSettings,
+  PushResult,
+} from '../../types';
+import styles from './PullRequestSettings.module.css';
+
+const PROVIDER_OPTIONS: Array<DropdownOption> = [
+  { value: 'github', text: 'GitHub pull request' },
+  { value: 'gitlab', text: 'GitLab merge request' },
+];
+
+export type PushStatus =
+  | { state: 'idle' }
+  | { state: 'pushing' }
+  | { state: 'done'; result: PushResult }
+  | { state: 'error'; message: string };
+
+export interface PullRequestSettingsProps {
+  settings: GitSettings;
+  onChange: (settings: GitSettings) => void;
+  status: PushStatus;
+  disabled: boolean;
+  onPush: () => void;
+}
+
+export default function PullRequestSettings({
+  settings,
+  onChange,
+  status,
+  disabled,
+  onPush,
+}: PullRequestSettingsProps) {
+  const set = (next: Partial<GitSettings>) =>
+    onChange({ ...settings, ...next });
+  const setProvider = (provider: GitProvider) =>
+    set({
+      provider,
+      // Swap the default host along, but keep a custom one
+      baseUrl:
+        settings.baseUrl === DEFAULT_API_URLS[settings.provider]
+          ? DEFAULT_API_URLS[provider]
+          : settings.baseUrl,
+    });
+
+  return (
+    <div className={styles.pullRequest}>
+      <p>Pull request</p>
+      <Dropdown
+        options={PROVIDER_OPTIONS}
+        value={settings.provider}
+        onValueChange={(value) => setProvider(value as GitProvider)}
+      />
+      <Textbox
+        placeholder={`API base URL (${DEFAULT_API_URLS[settings.provider]})`}
+        value={settings.baseUrl}
+        onValueInput={(baseUrl) => set({ baseUrl })}
+      />
+      <Textbox
+        placeholder="Repository (owner/name)"
+        value={settings.repository}
+        onValueInput={(repository) => set({ repository })}
+      />
+      <Textbox
+        placeholder="Base branch (default branch if empty)"
+        value={settings.baseBranch}
+        onValueInput={(baseBranch) => set({ baseBranch })}
+      />
+      <Textbox
+        placeholder="Target path in the repository (e.g. tokens)"
+        value={settings.path}
+        onValueInput={(path) => set({ path })}
+      />
+      <Textbox
+        password
+        placeholder="Access token"
+        value={settings.token}
+        onValueInput={(token) => set({ token })}
+      />
+      <Button
+        fullWidth
+        disabled={
+          disabled ||
+          status.state === 'pushing' ||
+          !settings.repository.trim() ||
+          !settings.token.trim()
+        }
+        onClick={onPush}
+      >
+        {status.state === 'pushing' ? 'Opening…' : 'Open pull request'}
+      </Button>
+      {status.state === 'done' && (
+        <p className={styles.result}>
+          Branch {status.result.branch}:{' '}
+          <a href={status.result.url} target="_blank" rel="noreferrer">
+            {status.result.url}
+          </a>
+        </p>
+      )}
+      {status.state === 'error' && (
+        <p className={`${styles.result} ${styles.error}`}>{status.message}</p>
+      )}
+    </div>
+  );
+}
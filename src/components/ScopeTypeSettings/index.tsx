@@ -0,0 +1,86 @@
+import { h } from 'preact';
+import { useState } from 'preact/hooks';
+import {
+  Dropdown,
+  DropdownOption,
+  TextboxNumeric,
+} from '@create-figma-plugin/ui';
+import {
+  DEFAULT_SCOPE_TYPES,
+  NUMERIC_SCOPES,
+  scopeTypesFor,
+} from '../../scopes';
+import { ExportOptions, ScopeType } from '../../types';
+import styles from './ScopeTypeSettings.module.css';
+
+const SCOPE_TYPE_LABELS: Record<ScopeType, string> = {
+  px: 'dimension (px)',
+  rem: 'dimension (rem)',
+  number: 'number',
+  opacity: 'number (0–1)',
+  fontWeight: 'fontWeight',
+  fontFamily: 'fontFamily',
+  string: 'string',
+};
+
+// "LETTER_SPACING" -> "Letter spacing"
+function scopeLabel(scope: VariableScope): string {
+  const words = scope.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export interface ScopeTypeSettingsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+}
+
+export default function ScopeTypeSettings({
+  options,
+  onChange,
+}: ScopeTypeSettingsProps) {
+  const [remBase, setRemBase] = useState(String(options.remBase));
+
+  const setScopeType = (scope: VariableScope, type: ScopeType) => {
+    const scopeTypes = { ...options.scopeTypes };
+    if (type === DEFAULT_SCOPE_TYPES[scope]) delete scopeTypes[scope];
+    else scopeTypes[scope] = type;
+    onChange({ ...options, scopeTypes });
+  };
+
+  return (
+    <div className={styles.scopes}>
+      <p>Token types by scope</p>
+      {NUMERIC_SCOPES.map((scope) => {
+        const dropdownOptions: Array<DropdownOption> = scopeTypesFor(scope).map(
+          (type) => ({ value: type, text: SCOPE_TYPE_LABELS[type] })
+        );
+        return (
+          <div key={scope} className={styles.row}>
+            <span>{scopeLabel(scope)}</span>
+            <Dropdown
+              options={dropdownOptions}
+              value={
+                options.scopeTypes[scope] ?? DEFAULT_SCOPE_TYPES[scope] ?? null
+              }
+              onValueChange={(value) => setScopeType(scope, value as ScopeType)}
+            />
+          </div>
+        );
+      })}
+      <div className={styles.row}>
+        <span>1rem =</span>
+        <TextboxNumeric
+          minimum={1}
+          suffix="px"
+          value={remBase}
+          onValueInput={setRemBase}
+          onNumericValueInput={(value) => {
+            if (value !== null && value > 0) {
+              onChange({ ...options, remBase: value });
+            }
+          }}
+        />
+      </div>
+    </div>
+  );
+}
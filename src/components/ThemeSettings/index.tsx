@@ -0,0 +1,66 @@
+import { h } from 'preact';
+import { Checkbox } from '@object-ui/components';
+import { themeCombinations } from '../../themes';
+import { ExportOptions, VariableCollectionSummary } from '../../types';
+import styles from './ThemeSettings.module.css';
+
+export interface ThemeSettingsProps {
+  collections: VariableCollectionSummary[]; // the ones being exported
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+}
+
+export default function ThemeSettings({
+  collections,
+  options,
+  onChange,
+}: ThemeSettingsProps) {
+  if (!options.formats.includes('dtcg')) return null;
+
+  const themes = themeCombinations(collections);
+  const toggleTheme = (id: string) => {
+    const skippedThemes = options.skippedThemes.includes(id)
+      ? options.skippedThemes.filter((t) => t !== id)
+      : [...options.skippedThemes, id];
+    onChange({ ...options, skippedThemes });
+  };
+
+  return (
+    <div className={styles.themes}>
+      <Checkbox
+        id="theme-manifest"
+        label="Write $themes manifest of mode combinations"
+        checked={options.themeManifest}
+        onChange={() =>
+          onChange({ ...options, themeManifest: !options.themeManifest })
+        }
+      />
+      {options.themeManifest && (
+        <Checkbox
+          id="merge-themes"
+          label="Also write a resolved file per theme"
+          checked={options.mergeThemes}
+          onChange={() =>
+            onChange({ ...options, mergeThemes: !options.mergeThemes })
+          }
+        />
+      )}
+      {options.themeManifest &&
+        (themes.length === 0 ? (
+          <p>No multi-mode collections selected</p>
+        ) : (
+          <div className={styles.list}>
+            {themes.map((theme) => (
+              <Checkbox
+                key={theme.id}
+                id={`theme-${theme.id}`}
+                label={theme.name}
+                checked={!options.skippedThemes.includes(theme.id)}
+                onChange={() => toggleTheme(theme.id)}
+              />
+            ))}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { h } from 'preact';
+import {
+  Dropdown,
+  DropdownOption,
+  TextboxMultiline,
+} from '@create-figma-plugin/ui';
+import { Checkbox } from '@object-ui/components';
+import { createVariableFilter } from '../../filter';
+import {
+  ExportOptions,
+  VariableCollectionSummary,
+  VariableFilter,
+} from '../../types';
+import styles from './VariableFilterSettings.module.css';
+
+const TYPES: VariableResolvedDataType[] = [
+  'COLOR',
+  'FLOAT',
+  'STRING',
+  'BOOLEAN',
+];
+
+// Scopes present in the selected collections, plus "any"
+function scopeOptions(
+  collections: VariableCollectionSummary[]
+): Array<DropdownOption> {
+  const scopes = Array.from(
+    new Set(collections.flatMap((c) => c.variables.flatMap((v) => v.scopes)))
+  ).sort();
+  return [
+    { value: 'ANY', text: 'Any scope' },
+    ...scopes.map((scope) => ({ value: scope, text: scope })),
+  ];
+}
+
+export interface VariableFilterSettingsProps {
+  collections: VariableCollectionSummary[]; // the ones being exported
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+}
+
+export default function VariableFilterSettings({
+  collections,
+  options,
+  onChange,
+}: VariableFilterSettingsProps) {
+  const { filter } = options;
+  const setFilter = (next: Partial<VariableFilter>) =>
+    onChange({ ...options, filter: { ...filter, ...next } });
+
+  const variables = collections.flatMap((c) => c.variables);
+  const matching = variables.filter(createVariableFilter(filter)).length;
+
+  return (
+    <div className={styles.filter}>
+      <p>Variables to export</p>
+      <TextboxMultiline
+        rows={3}
+        placeholder={'color/**\n!internal/**'}
+        value={filter.patterns.join('\n')}
+        onValueInput={(value) => setFilter({ patterns: value.split('\n') })}
+      />
+      <Checkbox
+        id="filter-exclude-hidden"
+        label="Skip variables hidden from publishing"
+        checked={filter.excludeHidden}
+        onChange={() => setFilter({ excludeHidden: !filter.excludeHidden })}
+      />
+      <div className={styles.types}>
+        {TYPES.map((type) => (
+          <Checkbox
+            key={type}
+            id={`filter-type-${type}`}
+            label={type.toLowerCase()}
+            checked={filter.types.includes(type)}
+            onChange={() =>
+              setFilter({
+                types: filter.types.includes(type)
+                  ? filter.types.filter((t) => t !== type)
+                  : [...filter.types, type],
+              })
+            }
+          />
+        ))}
+      </div>
+      <Dropdown
+        options={scopeOptions(collections)}
+        value={filter.scope}
+        onValueChange={(value) =>
+          setFilter({ scope: value as VariableFilter['scope'] })
+        }
+      />
+      <p className={styles.count}>
+        {matching} of {variables.length} variables match
+      </p>
+    </div>
+  );
+}
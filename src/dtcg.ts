@@ -0,0 +1,175 @@
+// dtcg.ts — DTCG token tree types and tree helpers shared by the export
+// pipeline (main.ts) and the output formats (formats/*).
+
+import { ExportOptions, NamingOptions } from './types';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// DTCG types (minimal)
+// ───────────────────────────────────────────────────────────────────────────────
+
+export type DTCGToken = {
+  $type:
+    | 'color'
+    | 'dimension'
+    | 'number'
+    | 'string'
+    | 'boolean'
+    | 'fontWeight'
+    | 'fontFamily';
+  $value?: any;
+  $description?: string;
+  $extensions?: Record<string, any>;
+  // Used only during intermediate build; removed in final output:
+  $modes?: Record<string, any>;
+  // Figma metadata for formats that need it (e.g. codeSyntax names); never
+  // written to DTCG JSON as-is, see toFileTokens
+  $figma?: FigmaTokenMeta;
+};
+
+export type FigmaTokenMeta = {
+  variableId: string;
+  collectionId: string;
+  codeSyntax: { WEB?: string; ANDROID?: string; iOS?: string };
+  scopes: string[];
+  hiddenFromPublishing: boolean;
+};
+
+// Groups nest by key; leaves are tokens
+export type TokenTree<T> = { [key: string]: T | TokenTree<T> };
+
+export type DTCGGroup = TokenTree<DTCGToken>;
+
+// For final file (style files hold composite tokens instead, see styles.ts):
+export type DTCGFile<T = DTCGToken> = {
+  $schema?: string;
+  $metadata?: {
+    name?: string;
+    description?: string;
+    overrides?: string; // base mode this file only holds differences from
+    // How the file was written, so an import matches it back (import.ts)
+    modes?: string[]; // the collection's modes, in Figma's order
+    baseMode?: string;
+    naming?: NamingOptions;
+    remBase?: number;
+    scopeTypes?: ExportOptions['scopeTypes'];
+  };
+  tokens: TokenTree<T>;
+};
+
+// Final-file form of a tree: pipeline-only fields dropped, the Figma variable
+// id kept in $extensions["com.figma"] so later exports can be diffed by id.
+// `full` keeps all of $figma (collection id, scopes, codeSyntax, …).
+export function toFileTokens(tree: DTCGGroup, full = false): DTCGGroup {
+  const out: DTCGGroup = {};
+  for (const [key, value] of Object.entries(tree)) {
+    if (!isLeaf(value)) {
+      out[key] = toFileTokens(value as DTCGGroup, full);
+      continue;
+    }
+    const { $figma, ...token } = value;
+    if ($figma) {
+      token.$extensions = {
+        ...token.$extensions,
+        'com.figma': {
+          ...token.$extensions?.['com.figma'],
+          ...(full ? $figma : { variableId: $figma.variableId }),
+        },
+      };
+    }
+    out[key] = token;
+  }
+  return out;
+}
+
+// Figma variable id of a token, from the pipeline or from an exported file
+export function variableIdOf(token: DTCGToken): string | undefined {
+  return (
+    token.$figma?.variableId ?? token.$extensions?.['com.figma']?.variableId
+  );
+}
+
+export function isLeaf(node: any): node is DTCGToken {
+  return (
+    node &&
+    typeof node === 'object' &&
+    ('$type' in node || '$value' in node || '$modes' in node)
+  );
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Mode resolver: removes $modes and sets concrete $value for a chosen mode
+// ───────────────────────────────────────────────────────────────────────────────
+
+export function resolveMode(
+  tree: DTCGGroup,
+  modeName: string,
+  fallbackMode?: string
+): DTCGGroup {
+  const out: DTCGGroup = {};
+
+  for (const [key, value] of Object.entries(tree)) {
+    if (isLeaf(value)) {
+      const t = value as DTCGToken;
+      const { $modes, ...rest } = t;
+      if ($modes) {
+        const hasExact = Object.prototype.hasOwnProperty.call($modes, modeName);
+        const chosen = hasExact
+          ? $modes[modeName]
+          : fallbackMode && $modes[fallbackMode] !== undefined
+            ? $modes[fallbackMode]
+            : t.$value;
+        out[key] = { ...rest, $value: chosen };
+      } else {
+        out[key] = { ...rest };
+      }
+    } else {
+      out[key] = resolveMode(value as DTCGGroup, modeName, fallbackMode);
+    }
+  }
+
+  return out;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Tree walking & aliases
+// ───────────────────────────────────────────────────────────────────────────────
+
+export type TokenEntry = { path: string[]; token: DTCGToken };
+
+// Depth-first list of every leaf token with its path from the root
+export function flattenTokens(
+  tree: DTCGGroup,
+  prefix: string[] = []
+): TokenEntry[] {
+  const out: TokenEntry[] = [];
+  for (const [key, value] of Object.entries(tree)) {
+    const path = [...prefix, key];
+    if (isLeaf(value)) {
+      out.push({ path, token: value });
+    } else {
+      out.push(...flattenTokens(value as DTCGGroup, path));
+    }
+  }
+  return out;
+}
+
+export function isAlias(value: any): value is string {
+  return (
+    typeof value === 'string' && value.startsWith('{') && value.endsWith('}')
+  );
+}
+
+// A Figma variable value that points at another variable
+export function isVariableAlias(value: VariableValue): value is VariableAlias {
+  return (
+    typeof value === 'object' &&
+    'type' in value &&
+    value.type === 'VARIABLE_ALIAS'
+  );
+}
+
+// "{color.bg.surface}" -> ["color", "bg", "surface"]; exported aliases are
+// written with the same segments the token tree is keyed by (naming.ts)
+export function aliasPath(alias: string): string[] {
+  return alias.slice(1, -1).split('.');
+}
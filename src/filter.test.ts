@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { FilterableVariable, createVariableFilter } from './filter';
+import { DEFAULT_EXPORT_OPTIONS, VariableFilter } from './types';
+
+const variable = (scopes: VariableScope[]): FilterableVariable => ({
+  name: 'color/bg',
+  resolvedType: 'COLOR',
+  scopes,
+  hiddenFromPublishing: false,
+});
+
+const byScope = (scope: VariableFilter['scope']) =>
+  createVariableFilter({ ...DEFAULT_EXPORT_OPTIONS.filter, scope });
+
+test('a scope filter matches variables with every scope', () => {
+  assert.equal(byScope('FRAME_FILL')(variable(['ALL_SCOPES'])), true);
+  assert.equal(byScope('GAP')(variable(['ALL_SCOPES'])), true);
+});
+
+test('a fill scope filter matches variables with every fill', () => {
+  assert.equal(byScope('TEXT_FILL')(variable(['ALL_FILLS'])), true);
+  assert.equal(byScope('STROKE_COLOR')(variable(['ALL_FILLS'])), false);
+});
+
+test('a scope filter leaves out other scopes', () => {
+  assert.equal(byScope('FRAME_FILL')(variable(['TEXT_FILL'])), false);
+  assert.equal(byScope('ALL_SCOPES')(variable(['TEXT_FILL'])), false);
+});
@@ -0,0 +1,88 @@
+// filter.ts — which variables of the selected collections get exported.
+//
+// Patterns are globs over the Figma variable name ("color/**", "*/500");
+// a leading "!" excludes. With include patterns a variable has to match one
+// of them; it must never match an exclude pattern. `*` stays within a group,
+// `**` crosses groups, matching is case-insensitive. A scope filter also
+// matches the variables whose scopes cover it (ALL_SCOPES, ALL_FILLS).
+
+import { VariableFilter } from './types';
+
+// The fields filtering looks at (Variable, or its summary in the UI)
+export type FilterableVariable = {
+  name: string;
+  resolvedType: VariableResolvedDataType;
+  scopes: ReadonlyArray<VariableScope>;
+  hiddenFromPublishing: boolean;
+};
+
+export function isFilterActive(filter: VariableFilter): boolean {
+  return (
+    filter.patterns.some((p) => p.trim() !== '') ||
+    filter.excludeHidden ||
+    filter.types.length > 0 ||
+    filter.scope !== 'ANY'
+  );
+}
+
+export function createVariableFilter(
+  filter: VariableFilter
+): (variable: FilterableVariable) => boolean {
+  const patterns = filter.patterns.map((p) => p.trim()).filter(Boolean);
+  const includes = patterns.filter((p) => !p.startsWith('!')).map(globToRegExp);
+  const excludes = patterns
+    .filter((p) => p.startsWith('!'))
+    .map((p) => globToRegExp(p.slice(1)));
+
+  return (variable) => {
+    const name = normalizeName(variable.name);
+    if (filter.excludeHidden && variable.hiddenFromPublishing) return false;
+    if (
+      filter.types.length > 0 &&
+      !filter.types.includes(variable.resolvedType)
+    ) {
+      return false;
+    }
+    if (filter.scope !== 'ANY' && !hasScope(variable, filter.scope)) {
+      return false;
+    }
+    if (includes.length > 0 && !includes.some((re) => re.test(name))) {
+      return false;
+    }
+    return !excludes.some((re) => re.test(name));
+  };
+}
+
+// Scopes that stand for a set of others
+const SCOPE_GROUPS: Partial<Record<VariableScope, VariableScope[]>> = {
+  ALL_FILLS: ['FRAME_FILL', 'SHAPE_FILL', 'TEXT_FILL'],
+};
+
+function hasScope(variable: FilterableVariable, scope: VariableScope): boolean {
+  return variable.scopes.some(
+    (s) => s === scope || s === 'ALL_SCOPES' || SCOPE_GROUPS[s]?.includes(scope)
+  );
+}
+
+// "color/**" -> /^color\/.*$/i; "group/**" also matches the group's tokens
+// at any depth, "*" a single segment
+function globToRegExp(glob: string): RegExp {
+  const source = normalizeName(glob)
+    .split(/(\*\*|\*|\?)/)
+    .map((part) =>
+      part === '**'
+        ? '.*'
+        : part === '*'
+          ? '[^/]*'
+          : part === '?'
+            ? '[^/]'
+            : part.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// "Color / Bg" -> "Color/Bg"
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s*\/\s*/g, '/');
+}
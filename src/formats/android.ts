@@ -0,0 +1,358 @@
+// formats/android.ts — Android XML resources and Jetpack Compose objects.
+//
+// XML resources, laid out as Gradle source sets (android/src/…/res):
+//  - Base mode → main/res/values/<collection>_colors.xml, _dimens.xml,
+//    _strings.xml, _bools.xml
+//  - "dark" mode → main/res/values-night/ (the night resource qualifier)
+//  - Any other mode has no qualifier; it goes to <mode>/res/values/, the
+//    source set of a product flavour named after the mode (e.g. highContrast)
+//  - Mode directories only hold overridden resources; @type/name references
+//    resolve against the active qualifier / flavour
+//
+// Compose (<Collection>Tokens.kt):
+//  - `object <Collection>Tokens` with base values, nested `object` per other mode
+//  - Color(0xAARRGGBB), .dp / .sp, FontWeight, Float, String and Boolean constants
+//
+// Names come from codeSyntax.ANDROID when set, else the token path. FLOATs use
+// androidUnit (dp/sp) instead of the px / rem written to DTCG JSON. Name
+// collisions and aliases to tokens outside the export are reported and left
+// out (see unemittableTokens).
+
+import {
+  DTCGToken,
+  TokenEntry,
+  aliasPath,
+  flattenTokens,
+  isAlias,
+} from '../dtcg';
+import { toSlug } from '../naming';
+import { ExportFile, ExportIssue, ExportOptions } from '../types';
+import {
+  IndexedToken,
+  ResolvedCollection,
+  ResolvedMode,
+  androidUnit,
+  codeSyntaxName,
+  getBaseMode,
+  indexTokens,
+  matchingMode,
+  parseColor,
+  parseNumber,
+  toArgbHex,
+  toCamelCase,
+  toPascalCase,
+  unemittableTokens,
+  withPixelDimensions,
+} from './shared';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// XML resources
+// ───────────────────────────────────────────────────────────────────────────────
+
+type ResourceKind = 'color' | 'dimen' | 'string' | 'bool';
+
+const RESOURCE_FILES: Record<ResourceKind, string> = {
+  color: 'colors',
+  dimen: 'dimens',
+  string: 'strings',
+  bool: 'bools',
+};
+
+export function buildAndroidXmlFiles(
+  resolved: ResolvedCollection[],
+  options: ExportOptions,
+  issues: ExportIssue[] = []
+): ExportFile[] {
+  const collections = withPixelDimensions(resolved, options.remBase);
+  const index = indexTokens(collections);
+  // Resource names are global per type, across every collection
+  const skipped = unemittableTokens(
+    collections,
+    index,
+    {
+      label: 'Android XML',
+      name: resourceName,
+      scopes: (e) => [resourceKind(e.token)],
+    },
+    issues
+  );
+  const entriesOf = (mode: ResolvedMode) =>
+    flattenTokens(mode.tokens).filter((e) => !skipped.has(e.path.join('.')));
+  const files: ExportFile[] = [];
+
+  for (const collection of collections) {
+    const base = getBaseMode(collection);
+    if (!base) continue;
+
+    const baseEntries = entriesOf(base);
+    files.push(
+      ...resourceFiles(
+        'android/src/main/res/values',
+        collection,
+        base.name,
+        baseEntries,
+        index
+      )
+    );
+
+    const baseValues = new Map(
+      baseEntries.map((e) => [e.path.join('.'), resourceValue(e.token, index)])
+    );
+    for (const mode of collection.modes) {
+      if (mode === base) continue;
+      const overrides = entriesOf(mode).filter(
+        (e) =>
+          baseValues.get(e.path.join('.')) !== resourceValue(e.token, index)
+      );
+      const dir =
+        toSlug(mode.name) === 'dark'
+          ? 'android/src/main/res/values-night'
+          : `android/src/${toCamelCase([mode.name])}/res/values`;
+      files.push(
+        ...resourceFiles(dir, collection, mode.name, overrides, index)
+      );
+    }
+  }
+
+  return files;
+}
+
+function resourceFiles(
+  dir: string,
+  collection: ResolvedCollection,
+  modeName: string,
+  entries: TokenEntry[],
+  index: Map<string, IndexedToken>
+): ExportFile[] {
+  const prefix = collection.slug.replace(/-/g, '_');
+  return (Object.keys(RESOURCE_FILES) as ResourceKind[]).flatMap((kind) => {
+    const lines = entries
+      .filter((e) => resourceKind(e.token) === kind)
+      .map((e) => `  ${resourceElement(e, index)}`);
+    if (lines.length === 0) return [];
+    return [
+      {
+        filename: `${dir}/${prefix}_${RESOURCE_FILES[kind]}.xml`,
+        content:
+          `<?xml version="1.0" encoding="utf-8"?>\n` +
+          `<!-- Figma Variables — ${escapeXml(collection.name)} (${escapeXml(modeName)}) -->\n` +
+          `<resources>\n${lines.join('\n')}\n</resources>\n`,
+      },
+    ];
+  });
+}
+
+function resourceKind(token: DTCGToken): ResourceKind {
+  switch (token.$type) {
+    case 'color':
+      return 'color';
+    case 'dimension':
+    case 'number':
+    case 'fontWeight':
+      return 'dimen';
+    case 'boolean':
+      return 'bool';
+    default:
+      return 'string';
+  }
+}
+
+function resourceElement(
+  { path, token }: TokenEntry,
+  index: Map<string, IndexedToken>
+): string {
+  const kind = resourceKind(token);
+  const name = resourceName({ path, token });
+  const value = resourceValue(token, index);
+  // Unitless numbers have no <dimen> form of their own
+  if (
+    (token.$type === 'number' || token.$type === 'fontWeight') &&
+    !isAlias(token.$value)
+  ) {
+    return `<item name="${name}" format="float" type="dimen">${value}</item>`;
+  }
+  return `<${kind} name="${name}">${value}</${kind}>`;
+}
+
+function resourceValue(
+  token: DTCGToken,
+  index: Map<string, IndexedToken>
+): string {
+  const value = token.$value;
+  if (isAlias(value)) {
+    // Only aliases to exported tokens get here (unemittableTokens)
+    const target = index.get(aliasPath(value).join('.')) as IndexedToken;
+    return `@${resourceKind(target.token)}/${resourceName(target)}`;
+  }
+
+  switch (token.$type) {
+    case 'color': {
+      const c = parseColor(value);
+      return c ? `#${toArgbHex(c)}` : escapeXml(String(value));
+    }
+    case 'dimension':
+      return `${parseNumber(value)}${androidUnit(token)}`;
+    case 'number':
+    case 'fontWeight':
+      return String(parseNumber(value));
+    case 'boolean':
+      return value ? 'true' : 'false';
+    default:
+      return escapeXml(String(value)).replace(/'/g, "\\'");
+  }
+}
+
+// Resource names are lower snake case: "colorBgSurface" -> "color_bg_surface"
+function resourceName({ path, token }: { path: string[]; token: DTCGToken }) {
+  const syntax = codeSyntaxName(token.$figma?.codeSyntax.ANDROID);
+  const name = (
+    syntax ? syntax.replace(/([a-z0-9])([A-Z])/g, '$1_$2') : path.join('_')
+  )
+    .replace(/[^A-Za-z0-9_]+/g, '_')
+    .toLowerCase();
+  return /^[a-z]/.test(name) ? name : `t_${name}`;
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Jetpack Compose
+// ───────────────────────────────────────────────────────────────────────────────
+
+export function buildComposeFiles(
+  resolved: ResolvedCollection[],
+  options: ExportOptions,
+  issues: ExportIssue[] = []
+): ExportFile[] {
+  const collections = withPixelDimensions(resolved, options.remBase);
+  const index = indexTokens(collections);
+  const skipped = unemittableTokens(
+    collections,
+    index,
+    {
+      label: 'Compose',
+      name: kotlinName,
+      scopes: (e) => [objectName(e.collection)],
+    },
+    issues
+  );
+  return collections.map((collection) => ({
+    filename: `${objectName(collection)}.kt`,
+    content: buildKotlinSource(collection, index, skipped),
+  }));
+}
+
+function buildKotlinSource(
+  collection: ResolvedCollection,
+  index: Map<string, IndexedToken>,
+  skipped: Set<string>
+): string {
+  const base = getBaseMode(collection);
+  const header = [
+    `// Figma Variables — ${collection.name}`,
+    'package tokens',
+    'import androidx.compose.ui.graphics.Color\n' +
+      'import androidx.compose.ui.text.font.FontWeight\n' +
+      'import androidx.compose.ui.unit.dp\n' +
+      'import androidx.compose.ui.unit.sp',
+  ].join('\n\n');
+  if (!base) return header + '\n';
+
+  const entriesOf = (mode: ResolvedMode) =>
+    flattenTokens(mode.tokens).filter((e) => !skipped.has(e.path.join('.')));
+  const body = [
+    entriesOf(base)
+      .map((e) => kotlinProperty(e, index, base.name, '    '))
+      .join('\n'),
+    ...collection.modes
+      .filter((mode) => mode !== base)
+      .map((mode) => {
+        const props = entriesOf(mode)
+          .map((e) => kotlinProperty(e, index, mode.name, '        '))
+          .join('\n');
+        return `    object ${toPascalCase(mode.name)} {\n${props}\n    }`;
+      }),
+  ].filter(Boolean);
+
+  return `${header}\n\nobject ${objectName(collection)} {\n${body.join('\n\n')}\n}\n`;
+}
+
+function kotlinProperty(
+  entry: TokenEntry,
+  index: Map<string, IndexedToken>,
+  modeName: string,
+  indent: string
+): string {
+  const { token } = entry;
+  const name = kotlinName(entry);
+  const doc = token.$description
+    ? `${indent}/** ${token.$description.replace(/\*\//g, '* /')} */\n`
+    : '';
+  const isConst =
+    !isAlias(token.$value) &&
+    (token.$type === 'string' ||
+      token.$type === 'fontFamily' ||
+      token.$type === 'boolean' ||
+      token.$type === 'number');
+  return `${doc}${indent}${isConst ? 'const val' : 'val'} ${name} = ${kotlinValue(token, index, modeName)}`;
+}
+
+function kotlinValue(
+  token: DTCGToken,
+  index: Map<string, IndexedToken>,
+  modeName: string
+): string {
+  const value = token.$value;
+  if (isAlias(value)) {
+    // The target in the matching mode: its nested mode object, else the base
+    // value. Only aliases to exported tokens get here (unemittableTokens).
+    const target = index.get(aliasPath(value).join('.')) as IndexedToken;
+    const mode = matchingMode(target.collection, modeName);
+    const owner =
+      mode && mode !== getBaseMode(target.collection)
+        ? `${objectName(target.collection)}.${toPascalCase(mode.name)}`
+        : objectName(target.collection);
+    return `${owner}.${kotlinName(target)}`;
+  }
+
+  switch (token.$type) {
+    case 'color': {
+      const c = parseColor(value);
+      return c
+        ? `Color(0x${toArgbHex(c)})`
+        : `Color.Unspecified /* ${value} */`;
+    }
+    case 'dimension':
+      return `${parseNumber(value)}.${androidUnit(token)}`;
+    case 'number':
+      return `${parseNumber(value)}f`;
+    case 'fontWeight':
+      return `FontWeight(${Math.round(parseNumber(value))})`;
+    case 'boolean':
+      return value ? 'true' : 'false';
+    default:
+      return JSON.stringify(String(value)).replace(/\$/g, '\\$');
+  }
+}
+
+// How app code refers to a generated token (the Dev Mode panel's snippet)
+export function composeTokenReference(
+  collection: Pick<ResolvedCollection, 'name'>,
+  entry: { path: string[]; token: DTCGToken }
+): string {
+  return `${objectName(collection)}.${kotlinName(entry)}`;
+}
+
+function kotlinName({ path, token }: { path: string[]; token: DTCGToken }) {
+  return codeSyntaxName(token.$figma?.codeSyntax.ANDROID) ?? toCamelCase(path);
+}
+
+function objectName(collection: Pick<ResolvedCollection, 'name'>): string {
+  return `${toPascalCase(collection.name)}Tokens`;
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DTCGGroup } from '../dtcg';
+import { DEFAULT_EXPORT_OPTIONS, ExportIssue } from '../types';
+import { buildCssFiles } from './css';
+import { ResolvedCollection } from './shared';
+
+const collection = (tokens: DTCGGroup): ResolvedCollection => ({
+  id: 'c',
+  name: 'Tokens',
+  slug: 'tokens',
+  baseMode: 'Value',
+  modes: [{ name: 'Value', tokens }],
+});
+
+const size = (value: string) => ({
+  $type: 'dimension' as const,
+  $value: value,
+});
+
+const build = (tokens: DTCGGroup) => {
+  const issues: ExportIssue[] = [];
+  const [file] = buildCssFiles(
+    [collection(tokens)],
+    DEFAULT_EXPORT_OPTIONS,
+    issues
+  );
+  return { content: file.content, issues };
+};
+
+test('writes the first of two paths that only differ by separator', () => {
+  const { content, issues } = build({
+    gap: { small: size('4px') },
+    'gap-small': size('8px'),
+  });
+  assert.match(content, /--gap-small: 4px;/);
+  assert.doesNotMatch(content, /8px/);
+  assert.equal(issues.length, 1);
+  assert.equal(
+    issues[0].message,
+    'CSS: gap-small in Tokens and gap.small in Tokens both become "gap-small", only gap.small in Tokens is written'
+  );
+});
+
+test('keeps paths that only differ by case', () => {
+  const { content, issues } = build({
+    gap: size('4px'),
+    Gap: size('8px'),
+  });
+  assert.match(content, /--gap: 4px;/);
+  assert.match(content, /--Gap: 8px;/);
+  assert.deepEqual(issues, []);
+});
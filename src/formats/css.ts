@@ -0,0 +1,109 @@
+// formats/css.ts — CSS custom properties, one stylesheet per collection.
+//
+//  - Base mode → :root { --color-bg-surface: #ffffff; }
+//  - Other modes → [data-theme="dark"] { ... } (or prefers-color-scheme),
+//    containing only the properties that differ from the base mode
+//  - Aliases → var(--color-bg-surface) so the cascade keeps working
+//  - Paths that give the same property name are reported, and only the
+//    first one is declared (duplicateStyleNames)
+
+import { flattenTokens } from '../dtcg';
+import { toSlug } from '../naming';
+import {
+  CssThemeSelector,
+  ExportFile,
+  ExportIssue,
+  ExportOptions,
+} from '../types';
+import {
+  ResolvedCollection,
+  ResolvedMode,
+  duplicateStyleNames,
+  getBaseMode,
+  toKebabName,
+  toStyleValue,
+} from './shared';
+
+type Declaration = [name: string, value: string];
+
+export function buildCssFiles(
+  collections: ResolvedCollection[],
+  options: ExportOptions,
+  issues: ExportIssue[] = []
+): ExportFile[] {
+  const skipped = duplicateStyleNames(collections, 'CSS', issues);
+  return collections.map((collection) => ({
+    filename: `tokens.${collection.slug}.css`,
+    content: buildStylesheet(
+      collection,
+      options.cssThemeSelector,
+      skipped.get(collection.id) ?? new Set()
+    ),
+  }));
+}
+
+function buildStylesheet(
+  collection: ResolvedCollection,
+  themeSelector: CssThemeSelector,
+  skipped: Set<string>
+): string {
+  const blocks = [`/* Figma Variables — ${collection.name} */`];
+  const base = getBaseMode(collection);
+
+  if (base) {
+    const baseDecls = toDeclarations(base, skipped);
+    blocks.push(rule(':root', baseDecls));
+
+    const baseValues = new Map(baseDecls);
+    for (const mode of collection.modes) {
+      if (mode === base) continue;
+      // Only emit what the mode overrides; everything else cascades from :root
+      const overrides = toDeclarations(mode, skipped).filter(
+        ([name, value]) => baseValues.get(name) !== value
+      );
+      if (overrides.length === 0) continue;
+      blocks.push(modeRule(mode.name, overrides, themeSelector));
+    }
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+function modeRule(
+  modeName: string,
+  decls: Declaration[],
+  themeSelector: CssThemeSelector
+): string {
+  const slug = toSlug(modeName);
+  if (
+    themeSelector === 'media-query' &&
+    (slug === 'dark' || slug === 'light')
+  ) {
+    return `@media (prefers-color-scheme: ${slug}) {\n${rule(':root', decls, '  ')}\n}`;
+  }
+  return rule(`[data-theme="${slug}"]`, decls);
+}
+
+function rule(selector: string, decls: Declaration[], indent = ''): string {
+  const body = decls
+    .map(([name, value]) => `${indent}  ${name}: ${value};`)
+    .join('\n');
+  return `${indent}${selector} {\n${body}\n${indent}}`;
+}
+
+function toDeclarations(
+  mode: ResolvedMode,
+  skipped: Set<string>
+): Declaration[] {
+  return flattenTokens(mode.tokens)
+    .filter(({ path }) => !skipped.has(path.join('.')))
+    .map(({ path, token }) => [
+      cssVarName(path),
+      toStyleValue(token, (ref) => `var(${cssVarName(ref)})`),
+    ]);
+}
+
+// ["color", "bg", "surface"] -> "--color-bg-surface"
+export function cssVarName(path: string[]): string {
+  return `--${toKebabName(path)}`;
+}
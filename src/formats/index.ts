@@ -0,0 +1,35 @@
+// formats/index.ts — output format registry.
+//
+// Every format turns the resolved collections into a list of files that end
+// up in the ZIP sent with DOWNLOAD_ZIP. Formats only see plain DTCG trees, so
+// they never touch the figma global. What a format cannot express (name
+// collisions, dangling aliases) goes to `issues` instead of the output.
+
+import { ExportFile, ExportIssue, ExportOptions, OutputFormat } from '../types';
+import { buildAndroidXmlFiles, buildComposeFiles } from './android';
+import { buildCssFiles } from './css';
+import { buildJsonFiles } from './json';
+import { buildLessFiles } from './less';
+import { buildScssFiles } from './scss';
+import { buildSwiftFiles } from './swift';
+import { buildTailwindFiles } from './tailwind';
+import { buildTypeScriptFiles } from './typescript';
+import { ResolvedCollection } from './shared';
+
+export type Formatter = (
+  collections: ResolvedCollection[],
+  options: ExportOptions,
+  issues: ExportIssue[]
+) => ExportFile[];
+
+export const FORMATTERS: Record<OutputFormat, Formatter> = {
+  dtcg: buildJsonFiles,
+  css: buildCssFiles,
+  scss: buildScssFiles,
+  less: buildLessFiles,
+  typescript: buildTypeScriptFiles,
+  swift: buildSwiftFiles,
+  'android-xml': buildAndroidXmlFiles,
+  compose: buildComposeFiles,
+  tailwind: buildTailwindFiles,
+};
@@ -0,0 +1,196 @@
+// formats/json.ts — DTCG JSON, one file per mode (named by
+// naming.filenameTemplate, tokens.<collection>.<mode>.json by default; with
+// overridesOnly non-base modes hold just their differences), or with
+// jsonLayout 'per-collection' one lossless file per collection: base mode
+// values in $value, every mode in $extensions["com.figma"].modes, plus the
+// variable's ids, scopes, codeSyntax and hiddenFromPublishing.
+
+import {
+  DTCGFile,
+  DTCGGroup,
+  flattenTokens,
+  isLeaf,
+  toFileTokens,
+} from '../dtcg';
+import { renderFilename } from '../naming';
+import { DEFAULT_EXPORT_OPTIONS, ExportFile, ExportOptions } from '../types';
+import { ResolvedCollection, ResolvedMode, getBaseMode } from './shared';
+
+export const SCHEMA_URL = 'https://design-tokens.org/dtcg/schema.json';
+
+export function buildJsonFiles(
+  collections: ResolvedCollection[],
+  options: ExportOptions
+): ExportFile[] {
+  if (options.jsonLayout === 'per-collection') {
+    return collections.map((c) => buildCollectionFile(c, options));
+  }
+
+  const files: ExportFile[] = [];
+
+  for (const collection of collections) {
+    if (collection.modes.length <= 1) {
+      // Single-mode collection → one file without mode suffix
+      const fileContent: DTCGFile = {
+        $schema: SCHEMA_URL,
+        $metadata: {
+          name: `Figma Variables — ${collection.name}`,
+          description: `Tokens resolved for collection: ${collection.name}`,
+          ...writtenWith(collection, options),
+        },
+        tokens: toFileTokens(collection.modes[0]?.tokens ?? {}),
+      };
+      files.push({
+        filename: jsonFilename(collection, collection.modes[0], options),
+        content: JSON.stringify(fileContent, null, 2),
+      });
+      continue;
+    }
+
+    // Multi-mode collection → one file per mode
+    const base = getBaseMode(collection);
+    for (const mode of collection.modes) {
+      // Optionally only what differs from the base mode, for layered builds
+      const overrides = options.overridesOnly && base && mode !== base;
+      const fileContent: DTCGFile = {
+        $schema: SCHEMA_URL,
+        $metadata: {
+          name: `Figma Variables — ${collection.name} (${mode.name})`,
+          description: overrides
+            ? `Tokens of collection: ${collection.name}, mode: ${mode.name} that differ from ${base.name}`
+            : `Tokens resolved for collection: ${collection.name}, mode: ${mode.name}`,
+          ...(overrides ? { overrides: base.name } : {}),
+          ...writtenWith(collection, options),
+        },
+        tokens: toFileTokens(
+          overrides ? differences(mode.tokens, base.tokens) : mode.tokens
+        ),
+      };
+      files.push({
+        filename: jsonFilename(collection, mode, options),
+        content: JSON.stringify(fileContent, null, 2),
+      });
+    }
+  }
+
+  return files;
+}
+
+// File a mode ends up in (single-mode collections and the per-collection
+// layout carry no mode), from the naming filename template
+export function jsonFilename(
+  collection: ResolvedCollection,
+  mode: ResolvedMode | undefined,
+  options: ExportOptions
+): string {
+  const perMode =
+    options.jsonLayout === 'per-mode' && collection.modes.length > 1 && mode;
+  return templateFilename(
+    collection.slug,
+    perMode ? mode.name : undefined,
+    options
+  );
+}
+
+// The naming filename template filled in (empty: the default template), for
+// JSON files that are not a collection's: themes, styles
+export function templateFilename(
+  slug: string,
+  mode: string | undefined,
+  options: ExportOptions
+): string {
+  return renderFilename(
+    options.naming.filenameTemplate.trim() ||
+      DEFAULT_EXPORT_OPTIONS.naming.filenameTemplate,
+    slug,
+    mode
+  );
+}
+
+function buildCollectionFile(
+  collection: ResolvedCollection,
+  options: ExportOptions
+): ExportFile {
+  const base = getBaseMode(collection);
+  const modeValues = collection.modes.map((mode) => ({
+    name: mode.name,
+    values: new Map(
+      flattenTokens(mode.tokens).map((e) => [e.path.join('.'), e.token.$value])
+    ),
+  }));
+
+  const addModes = (group: DTCGGroup, prefix: string[]): DTCGGroup => {
+    const out: DTCGGroup = {};
+    for (const [key, node] of Object.entries(group)) {
+      const path = [...prefix, key];
+      if (!isLeaf(node)) {
+        out[key] = addModes(node as DTCGGroup, path);
+        continue;
+      }
+      const modes: Record<string, any> = {};
+      for (const { name, values } of modeValues) {
+        if (values.has(path.join('.')))
+          modes[name] = values.get(path.join('.'));
+      }
+      out[key] = {
+        ...node,
+        $extensions: {
+          ...node.$extensions,
+          'com.figma': { ...node.$extensions?.['com.figma'], modes },
+        },
+      };
+    }
+    return out;
+  };
+
+  const fileContent: DTCGFile = {
+    $schema: SCHEMA_URL,
+    $metadata: {
+      name: `Figma Variables — ${collection.name}`,
+      description: `Tokens for collection: ${collection.name}; base mode ${base?.name ?? 'n/a'}, all modes in $extensions["com.figma"].modes`,
+      ...writtenWith(collection, options),
+    },
+    tokens: addModes(toFileTokens(base?.tokens ?? {}, true), []),
+  };
+  return {
+    filename: jsonFilename(collection, base, options),
+    content: JSON.stringify(fileContent, null, 2),
+  };
+}
+
+// What an import needs to map the file back onto variables: paths depend on
+// the naming, px values on the rem base, new modes on the original order
+function writtenWith(
+  collection: ResolvedCollection,
+  options: ExportOptions
+): DTCGFile['$metadata'] {
+  return {
+    modes: collection.modes.map((m) => m.name),
+    baseMode: getBaseMode(collection)?.name,
+    naming: options.naming,
+    remBase: options.remBase,
+    scopeTypes: options.scopeTypes,
+  };
+}
+
+// Leaves of `tree` whose value differs from the same path in `base`
+function differences(tree: DTCGGroup, base: DTCGGroup): DTCGGroup {
+  const out: DTCGGroup = {};
+  for (const [key, node] of Object.entries(tree)) {
+    const other = base[key];
+    if (!isLeaf(node)) {
+      const nested = differences(
+        node as DTCGGroup,
+        other && !isLeaf(other) ? (other as DTCGGroup) : {}
+      );
+      if (Object.keys(nested).length > 0) out[key] = nested;
+    } else if (
+      !other ||
+      !isLeaf(other) ||
+      JSON.stringify(node.$value) !== JSON.stringify(other.$value)
+    ) {
+      out[key] = node;
+    }
+  }
+  return out;
+}
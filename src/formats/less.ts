@@ -0,0 +1,101 @@
+// formats/less.ts — Less variables + per-mode maps, one file per collection.
+//
+//  - Flat variables hold the base mode: @color-bg-surface: #ffffff;
+//  - One map (detached ruleset) per mode: @theme-dark: { color-bg-surface: … }
+//    read with @theme-dark[color-bg-surface]
+//  - Aliases stay symbolic (@color-base-black); Less evaluates lazily, so
+//    declaration order does not matter. Files of other collections they
+//    point at are imported (reference) at the top. In a mode map, an alias
+//    whose target has that mode is written as the target's value there,
+//    since the flat variable holds the base mode
+//  - Paths that give the same variable name are reported, and only the first
+//    one is declared (duplicateStyleNames)
+
+import { DTCGToken, flattenTokens } from '../dtcg';
+import { toSlug } from '../naming';
+import { ExportFile, ExportIssue, ExportOptions } from '../types';
+import {
+  IndexedToken,
+  ResolvedCollection,
+  ResolvedMode,
+  duplicateStyleNames,
+  getBaseMode,
+  indexTokens,
+  modeStyleValue,
+  referencedCollections,
+  toKebabName,
+  toStyleValue,
+} from './shared';
+
+export function buildLessFiles(
+  collections: ResolvedCollection[],
+  _options?: ExportOptions,
+  issues: ExportIssue[] = []
+): ExportFile[] {
+  const skipped = duplicateStyleNames(collections, 'Less', issues);
+  const index = indexTokens(collections);
+  return collections.map((collection) => ({
+    filename: `tokens.${collection.slug}.less`,
+    content: buildStylesheet(
+      collection,
+      referencedCollections(collection, collections),
+      skipped.get(collection.id) ?? new Set(),
+      index
+    ),
+  }));
+}
+
+function buildStylesheet(
+  collection: ResolvedCollection,
+  references: ResolvedCollection[],
+  skipped: Set<string>,
+  index: Map<string, IndexedToken>
+): string {
+  const base = getBaseMode(collection);
+  const blocks = [
+    `// Figma Variables — ${collection.name}\n` +
+      `// Flat variables hold the base mode (${base?.name ?? 'none'}); ` +
+      `per-mode values live in the maps below.`,
+  ];
+  if (!base) return blocks.join('\n\n') + '\n';
+
+  if (references.length > 0) {
+    blocks.push(
+      references
+        .map((r) => `@import (reference) 'tokens.${r.slug}.less';`)
+        .join('\n')
+    );
+  }
+
+  blocks.push(
+    toDeclarations(base, skipped, (token) => toStyleValue(token, lessVar))
+      .map(([name, value]) => `@${name}: ${value};`)
+      .join('\n')
+  );
+
+  for (const mode of collection.modes) {
+    const value = (token: DTCGToken) =>
+      modeStyleValue(token, index, mode.name, lessVar);
+    const body = toDeclarations(mode, skipped, value)
+      .map(([name, value]) => `  ${name}: ${value};`)
+      .join('\n');
+    blocks.push(`@${collection.slug}-${toSlug(mode.name)}: {\n${body}\n}`);
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+function toDeclarations(
+  mode: ResolvedMode,
+  skipped: Set<string>,
+  value: (token: DTCGToken) => string
+): Array<[string, string]> {
+  return flattenTokens(mode.tokens)
+    .filter(({ path }) => !skipped.has(path.join('.')))
+    .map(({ path, token }) => [toKebabName(path), value(token)]);
+}
+
+// ["color", "bg", "surface"] -> "@color-bg-surface"
+function lessVar(path: string[]): string {
+  return `@${toKebabName(path)}`;
+}
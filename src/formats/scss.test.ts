@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DTCGGroup } from '../dtcg';
+import { buildLessFiles } from './less';
+import { buildScssFiles } from './scss';
+import { ResolvedCollection } from './shared';
+
+const theme = (light: DTCGGroup, dark: DTCGGroup): ResolvedCollection => ({
+  id: 'theme',
+  name: 'Theme',
+  slug: 'theme',
+  baseMode: 'Light',
+  modes: [
+    { name: 'Light', tokens: light },
+    { name: 'Dark', tokens: dark },
+  ],
+});
+
+const palette = (surface: string): DTCGGroup => ({
+  bg: {
+    surface: { $type: 'string', $value: surface },
+    raised: { $type: 'string', $value: '{bg.surface}' },
+  },
+});
+
+const semantics: ResolvedCollection = {
+  id: 'semantics',
+  name: 'Semantics',
+  slug: 'semantics',
+  baseMode: 'Value',
+  modes: [
+    {
+      name: 'Value',
+      tokens: { card: { $type: 'string', $value: '{bg.raised}' } },
+    },
+  ],
+};
+
+test('SCSS mode maps resolve aliases in the mode being written', () => {
+  const [partial] = buildScssFiles([theme(palette('white'), palette('black'))]);
+  assert.match(partial.content, /\$bg-raised: \$bg-surface;/);
+  assert.match(
+    partial.content,
+    /\$theme-light: \([^;]*"raised": \$bg-surface,/
+  );
+  assert.match(partial.content, /\$theme-dark: \([^;]*"raised": "black",/);
+});
+
+test('Less mode maps resolve aliases in the mode being written', () => {
+  const [stylesheet] = buildLessFiles([
+    theme(palette('white'), palette('black')),
+  ]);
+  assert.match(stylesheet.content, /@bg-raised: @bg-surface;/);
+  assert.match(
+    stylesheet.content,
+    /@theme-light: {[^}]*bg-raised: @bg-surface;/
+  );
+  assert.match(stylesheet.content, /@theme-dark: {[^}]*bg-raised: "black";/);
+});
+
+test('aliases into a collection without that mode keep the reference', () => {
+  const files = buildScssFiles([
+    theme(palette('white'), palette('black')),
+    semantics,
+  ]);
+  assert.match(
+    files[1].content,
+    /\$semantics-value: \([^;]*"card": \$bg-raised,/
+  );
+});
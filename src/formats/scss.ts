@@ -0,0 +1,151 @@
+// formats/scss.ts — Sass variables + per-mode maps, one partial per collection.
+//
+//  - Flat variables hold the base mode: $color-bg-surface: #ffffff;
+//  - One nested map per mode: $theme-light: ('color': ('bg': (…))), …
+//  - $<collection>-tokens maps mode names to those maps
+//  - Aliases stay symbolic ($color-base-black); partials of other
+//    collections they point at are loaded with @use … as *. In a mode map,
+//    an alias whose target has that mode is written as the target's value
+//    there, since the flat variable holds the base mode
+//  - Paths that give the same variable name are reported, and only the first
+//    one is declared (duplicateStyleNames)
+
+import {
+  DTCGGroup,
+  DTCGToken,
+  TokenEntry,
+  aliasPath,
+  flattenTokens,
+  isAlias,
+  isLeaf,
+} from '../dtcg';
+import { toSlug } from '../naming';
+import { ExportFile, ExportIssue, ExportOptions } from '../types';
+import {
+  IndexedToken,
+  ResolvedCollection,
+  duplicateStyleNames,
+  getBaseMode,
+  indexTokens,
+  modeStyleValue,
+  referencedCollections,
+  toKebabName,
+  toStyleValue,
+} from './shared';
+
+export function buildScssFiles(
+  collections: ResolvedCollection[],
+  _options?: ExportOptions,
+  issues: ExportIssue[] = []
+): ExportFile[] {
+  const skipped = duplicateStyleNames(collections, 'SCSS', issues);
+  const index = indexTokens(collections);
+  return collections.map((collection) => ({
+    filename: `_tokens.${collection.slug}.scss`,
+    content: buildPartial(
+      collection,
+      referencedCollections(collection, collections),
+      skipped.get(collection.id) ?? new Set(),
+      index
+    ),
+  }));
+}
+
+function buildPartial(
+  collection: ResolvedCollection,
+  references: ResolvedCollection[],
+  skipped: Set<string>,
+  index: Map<string, IndexedToken>
+): string {
+  const base = getBaseMode(collection);
+  const blocks = [
+    `// Figma Variables — ${collection.name}\n` +
+      `// Flat variables hold the base mode (${base?.name ?? 'none'}); ` +
+      `per-mode values live in the maps below.`,
+  ];
+  if (!base) return blocks.join('\n\n') + '\n';
+
+  if (references.length > 0) {
+    blocks.push(
+      references.map((r) => `@use 'tokens.${r.slug}' as *;`).join('\n')
+    );
+  }
+
+  const kept = (entries: TokenEntry[]) =>
+    entries.filter(({ path }) => !skipped.has(path.join('.')));
+  blocks.push(
+    orderByReferences(kept(flattenTokens(base.tokens)))
+      .map(({ path, token }) => `${sassVar(path)}: ${sassValue(token)};`)
+      .join('\n')
+  );
+
+  const mapNames: Array<[mode: string, variable: string]> = [];
+  for (const mode of collection.modes) {
+    const name = `$${collection.slug}-${toSlug(mode.name)}`;
+    mapNames.push([mode.name, name]);
+    const value = (token: DTCGToken) =>
+      modeStyleValue(token, index, mode.name, sassVar);
+    blocks.push(`${name}: ${sassMap(mode.tokens, [], value, skipped, '')};`);
+  }
+
+  const entries = mapNames
+    .map(([mode, variable]) => `  ${JSON.stringify(mode)}: ${variable},`)
+    .join('\n');
+  blocks.push(`$${collection.slug}-tokens: (\n${entries}\n);`);
+
+  return blocks.join('\n\n') + '\n';
+}
+
+function sassMap(
+  group: DTCGGroup,
+  prefix: string[],
+  value: (token: DTCGToken) => string,
+  skipped: Set<string>,
+  indent: string
+): string {
+  const lines: string[] = [];
+  for (const [key, child] of Object.entries(group)) {
+    const path = [...prefix, key];
+    if (isLeaf(child) && skipped.has(path.join('.'))) continue;
+    const rendered = isLeaf(child)
+      ? value(child)
+      : sassMap(child as DTCGGroup, path, value, skipped, `${indent}  `);
+    lines.push(`${indent}  ${JSON.stringify(key)}: ${rendered},`);
+  }
+  return `(\n${lines.join('\n')}\n${indent})`;
+}
+
+function sassValue(token: DTCGToken): string {
+  return toStyleValue(token, sassVar);
+}
+
+// ["color", "bg", "surface"] -> "$color-bg-surface"
+function sassVar(path: string[]): string {
+  return `$${toKebabName(path)}`;
+}
+
+// Sass variables must be declared before use, so aliases pointing at tokens in
+// the same file are emitted after their targets.
+function orderByReferences(entries: TokenEntry[]): TokenEntry[] {
+  const byName = new Map(entries.map((e) => [toKebabName(e.path), e]));
+  const emitted = new Set<string>();
+  const visiting = new Set<string>();
+  const out: TokenEntry[] = [];
+
+  const visit = (entry: TokenEntry) => {
+    const name = toKebabName(entry.path);
+    if (emitted.has(name) || visiting.has(name)) return;
+    visiting.add(name);
+    const value = entry.token.$value;
+    if (isAlias(value)) {
+      const target = byName.get(toKebabName(aliasPath(value)));
+      if (target) visit(target);
+    }
+    visiting.delete(name);
+    emitted.add(name);
+    out.push(entry);
+  };
+
+  entries.forEach(visit);
+  return out;
+}
@@ -0,0 +1,351 @@
+// formats/shared.ts — types and helpers shared by the output formats
+
+import {
+  DTCGGroup,
+  DTCGToken,
+  aliasPath,
+  flattenTokens,
+  isAlias,
+  isLeaf,
+} from '../dtcg';
+import { ParsedColor, toCssColor } from '../color';
+import { toPixels } from '../scopes';
+import { ExportIssue } from '../types';
+
+export type ResolvedMode = {
+  name: string;
+  tokens: DTCGGroup; // $modes already resolved for this mode
+};
+
+export type ResolvedCollection = {
+  id: string;
+  name: string;
+  slug: string; // "Web Semantics" -> "web-semantics"
+  baseMode: string;
+  modes: ResolvedMode[];
+};
+
+// The mode every other mode is layered on (falls back to the first mode)
+export function getBaseMode(
+  collection: ResolvedCollection
+): ResolvedMode | undefined {
+  return (
+    collection.modes.find((m) => m.name === collection.baseMode) ??
+    collection.modes[0]
+  );
+}
+
+// ["color", "bg", "surface"] -> "color-bg-surface"
+export function toKebabName(path: string[]): string {
+  return path.join('-');
+}
+
+// Dot paths each collection leaves out of a stylesheet target. Custom
+// properties / variables share one namespace across files, and paths that
+// only differ by separator ("bg.primary-color", "bg.primary.color") get the
+// same name; the first token keeps it, the others are reported. Names are
+// case-sensitive in CSS, Sass and Less, so "Bg" and "bg" do not collide.
+export function duplicateStyleNames(
+  collections: ResolvedCollection[],
+  label: string,
+  issues: ExportIssue[]
+): Map<string, Set<string>> {
+  const skipped = new Map<string, Set<string>>();
+  const owners = new Map<string, string>(); // name -> "<path> in <collection>"
+  for (const collection of collections) {
+    const left = new Set<string>();
+    skipped.set(collection.id, left);
+    const base = getBaseMode(collection);
+    if (!base) continue;
+    for (const { path } of flattenTokens(base.tokens)) {
+      const name = toKebabName(path);
+      const key = `${path.join('.')} in ${collection.name}`;
+      const owner = owners.get(name);
+      if (owner === undefined) {
+        owners.set(name, key);
+        continue;
+      }
+      left.add(path.join('.'));
+      issues.push({
+        severity: 'warning',
+        path: path.join('.'),
+        message: `${label}: ${key} and ${owner} both become "${name}", only ${owner} is written`,
+      });
+    }
+  }
+  return skipped;
+}
+
+// Other collections whose tokens `collection` aliases (in any mode), in
+// export order, so SCSS / Less can import their files first
+export function referencedCollections(
+  collection: ResolvedCollection,
+  collections: ResolvedCollection[]
+): ResolvedCollection[] {
+  const targets = new Set<string>();
+  for (const mode of collection.modes) {
+    for (const { token } of flattenTokens(mode.tokens)) {
+      if (isAlias(token.$value)) targets.add(aliasPath(token.$value).join('.'));
+    }
+  }
+  return collections.filter((other) => {
+    const base = other !== collection && getBaseMode(other);
+    return (
+      base &&
+      flattenTokens(base.tokens).some(({ path }) => targets.has(path.join('.')))
+    );
+  });
+}
+
+// Literal value for stylesheet targets (CSS, SCSS, Less). Aliases are handed
+// to `reference` so each target can keep them symbolic.
+export function toStyleValue(
+  token: DTCGToken,
+  reference: (path: string[]) => string
+): string {
+  const value = token.$value;
+  if (isAlias(value)) return reference(aliasPath(value));
+  if (token.$type === 'string' || token.$type === 'fontFamily') {
+    return JSON.stringify(String(value));
+  }
+  if (token.$type === 'color') return toCssColor(value);
+  return String(value);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Native targets (Swift, Android): names, references & literal parsing
+// ───────────────────────────────────────────────────────────────────────────────
+
+export type IndexedToken = {
+  collection: ResolvedCollection;
+  path: string[];
+  token: DTCGToken;
+};
+
+// Every exported token by dot path (base mode), so aliases can be turned into
+// references to the target's generated name
+export function indexTokens(
+  collections: ResolvedCollection[]
+): Map<string, IndexedToken> {
+  const index = new Map<string, IndexedToken>();
+  for (const collection of collections) {
+    const base = getBaseMode(collection);
+    if (!base) continue;
+    for (const { path, token } of flattenTokens(base.tokens)) {
+      index.set(path.join('.'), { collection, path, token });
+    }
+  }
+  return index;
+}
+
+// The mode of `collection` an alias from a mode called `modeName` lands in:
+// the same-named mode when there is one, else the base mode
+export function matchingMode(
+  collection: ResolvedCollection,
+  modeName: string
+): ResolvedMode | undefined {
+  return (
+    collection.modes.find((m) => m.name === modeName) ?? getBaseMode(collection)
+  );
+}
+
+export type AliasTarget = IndexedToken & { mode: ResolvedMode | undefined };
+
+// What an alias read from a mode called `modeName` points at: the target path
+// in its matchingMode, falling back to the base-mode token
+export function aliasTarget(
+  alias: string,
+  index: Map<string, IndexedToken>,
+  modeName: string
+): AliasTarget | undefined {
+  const entry = index.get(aliasPath(alias).join('.'));
+  if (!entry) return undefined;
+  const mode = matchingMode(entry.collection, modeName);
+  const token = (mode && tokenAt(mode.tokens, entry.path)) ?? entry.token;
+  return { ...entry, mode, token };
+}
+
+// Stylesheet value of `token` in the map of a mode called `modeName`. Flat
+// variables hold base-mode values, so an alias whose target lands in another
+// mode is followed to that mode's literal; aliases landing in a base mode,
+// outside the export or in a cycle keep the `reference`.
+export function modeStyleValue(
+  token: DTCGToken,
+  index: Map<string, IndexedToken>,
+  modeName: string,
+  reference: (path: string[]) => string,
+  chain: string[] = []
+): string {
+  const value = token.$value;
+  if (!isAlias(value)) return toStyleValue(token, reference);
+  const key = aliasPath(value).join('.');
+  const target = aliasTarget(value, index, modeName);
+  if (
+    !target ||
+    chain.includes(key) ||
+    target.mode === getBaseMode(target.collection)
+  ) {
+    return toStyleValue(token, reference);
+  }
+  return modeStyleValue(target.token, index, modeName, reference, [
+    ...chain,
+    key,
+  ]);
+}
+
+function tokenAt(group: DTCGGroup, path: string[]): DTCGToken | undefined {
+  let node: any = group;
+  for (const seg of path) node = isLeaf(node) ? undefined : node?.[seg];
+  return isLeaf(node) ? node : undefined;
+}
+
+// How a native target names its output, for unemittableTokens
+export type NativeNaming = {
+  label: string; // "Swift", "Compose", …
+  name: (entry: IndexedToken) => string;
+  // Identifiers clash within a scope (an enum, an extension, a resource
+  // type); a token can live in more than one
+  scopes: (entry: IndexedToken) => string[];
+};
+
+// Dot paths of the tokens a native target leaves out, each reported:
+//  - a generated name already taken in one of its scopes (would not
+//    compile); the first token keeps it
+//  - aliases (in any mode) to tokens outside this export, which have nothing
+//    to reference, and, transitively, aliases to tokens left out
+export function unemittableTokens(
+  collections: ResolvedCollection[],
+  index: Map<string, IndexedToken>,
+  naming: NativeNaming,
+  issues: ExportIssue[]
+): Set<string> {
+  const skipped = new Set<string>();
+  const owners = new Map<string, string>();
+  index.forEach((entry, key) => {
+    const name = naming.name(entry);
+    const ids = naming.scopes(entry).map((scope) => `${scope}:${name}`);
+    const owner = ids.map((id) => owners.get(id)).find(Boolean);
+    if (owner === undefined) {
+      for (const id of ids) owners.set(id, key);
+      return;
+    }
+    skipped.add(key);
+    issues.push({
+      severity: 'warning',
+      path: key,
+      message: `${naming.label}: ${key} and ${owner} both become "${name}", only ${owner} is written`,
+    });
+  });
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const collection of collections) {
+      for (const mode of collection.modes) {
+        for (const { path, token } of flattenTokens(mode.tokens)) {
+          const key = path.join('.');
+          if (skipped.has(key) || !isAlias(token.$value)) continue;
+          const target = aliasPath(token.$value).join('.');
+          if (index.has(target) && !skipped.has(target)) continue;
+          skipped.add(key);
+          changed = true;
+          issues.push({
+            severity: 'warning',
+            path: key,
+            message: index.has(target)
+              ? `${naming.label}: ${key} is left out, its alias {${target}} is left out too`
+              : `${naming.label}: ${key} is left out, its alias {${target}} is not part of this export`,
+          });
+        }
+      }
+    }
+  }
+  return skipped;
+}
+
+// ["color", "bg-surface"] -> "colorBgSurface"
+export function toCamelCase(path: string[]): string {
+  const words = path
+    .flatMap((seg) => seg.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean)
+    .map((w) => w.toLowerCase());
+  const name = words
+    .map((w, i) => (i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name || '_';
+}
+
+// "Web Semantics" -> "WebSemantics"
+export function toPascalCase(name: string): string {
+  const camel = toCamelCase([name]);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+// Identifier from a Figma codeSyntax entry ("Color.bgSurface" -> "bgSurface"),
+// or undefined when the entry is missing or unusable
+export function codeSyntaxName(syntax: string | undefined): string | undefined {
+  const last = syntax?.trim().split('.').pop();
+  const name = last?.replace(/[^A-Za-z0-9_]/g, '');
+  return name && /^[A-Za-z_]/.test(name) ? name : undefined;
+}
+
+// Colour notations live in color.ts; re-exported for the native targets
+export { parseColor } from '../color';
+export type { ParsedColor } from '../color';
+
+// "16px" / 16 -> 16
+export function parseNumber(value: any): number {
+  return typeof value === 'number' ? value : parseFloat(String(value));
+}
+
+// Native targets have no rem: rewrite rem dimensions to px against remBase
+export function withPixelDimensions(
+  collections: ResolvedCollection[],
+  remBase: number
+): ResolvedCollection[] {
+  const convert = (group: DTCGGroup): DTCGGroup => {
+    const out: DTCGGroup = {};
+    for (const [key, node] of Object.entries(group)) {
+      if (!isLeaf(node)) {
+        out[key] = convert(node as DTCGGroup);
+      } else if (
+        node.$type === 'dimension' &&
+        typeof node.$value === 'string' &&
+        /rem$/i.test(node.$value)
+      ) {
+        out[key] = { ...node, $value: `${toPixels(node.$value, remBase)}px` };
+      } else {
+        out[key] = node;
+      }
+    }
+    return out;
+  };
+  return collections.map((collection) => ({
+    ...collection,
+    modes: collection.modes.map((mode) => ({
+      ...mode,
+      tokens: convert(mode.tokens),
+    })),
+  }));
+}
+
+// Channels -> "AARRGGBB" (Android / Compose colour literals)
+export function toArgbHex({ r, g, b, a }: ParsedColor): string {
+  return [a, r, g, b]
+    .map((c) =>
+      Math.round(c * 255)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')
+    .toUpperCase();
+}
+
+// Android has no px: text-related dimensions scale with the font setting (sp),
+// everything else is density-independent (dp). Unitless numbers get none.
+export function androidUnit(token: DTCGToken): 'dp' | 'sp' | undefined {
+  if (token.$type !== 'dimension') return undefined;
+  const scopes = token.$figma?.scopes ?? [];
+  const textScopes = ['FONT_SIZE', 'LINE_HEIGHT', 'LETTER_SPACING'];
+  return scopes.some((s) => textScopes.includes(s)) ? 'sp' : 'dp';
+}
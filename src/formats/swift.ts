@@ -0,0 +1,227 @@
+// formats/swift.ts — Swift / SwiftUI, one source file per collection.
+//
+//  - Colours → `UIColor` + SwiftUI `Color` extensions; a "dark" mode next to
+//    the base mode becomes a dynamic colour (userInterfaceStyle)
+//  - Other tokens → `CGFloat` / `Double` / `String` / `Bool` constants (rem
+//    dimensions in points) on an `<Collection>Tokens` enum
+//  - Every other mode (dark included) → a nested enum with all its tokens
+//  - Names come from codeSyntax.iOS when set, else the camel-cased token path
+//  - Aliases reference the target's generated name in the same mode; name
+//    collisions and aliases to tokens outside the export are reported and
+//    left out (see unemittableTokens)
+
+import {
+  DTCGToken,
+  TokenEntry,
+  aliasPath,
+  flattenTokens,
+  isAlias,
+} from '../dtcg';
+import { toSlug } from '../naming';
+import { ExportFile, ExportIssue, ExportOptions } from '../types';
+import {
+  IndexedToken,
+  ResolvedCollection,
+  ResolvedMode,
+  codeSyntaxName,
+  getBaseMode,
+  indexTokens,
+  matchingMode,
+  parseColor,
+  parseNumber,
+  toCamelCase,
+  toPascalCase,
+  unemittableTokens,
+  withPixelDimensions,
+} from './shared';
+
+const SWIFT_TYPES: Record<DTCGToken['$type'], string> = {
+  color: 'UIColor',
+  dimension: 'CGFloat',
+  number: 'Double',
+  string: 'String',
+  boolean: 'Bool',
+  fontWeight: 'Double',
+  fontFamily: 'String',
+};
+
+export function buildSwiftFiles(
+  resolved: ResolvedCollection[],
+  options: ExportOptions,
+  issues: ExportIssue[] = []
+): ExportFile[] {
+  const collections = withPixelDimensions(resolved, options.remBase);
+  const index = indexTokens(collections);
+  const skipped = unemittableTokens(
+    collections,
+    index,
+    {
+      label: 'Swift',
+      name: swiftName,
+      // The UIColor / Color extensions are shared by every collection
+      scopes: (e) =>
+        e.token.$type === 'color'
+          ? ['UIColor', enumName(e.collection)]
+          : [enumName(e.collection)],
+    },
+    issues
+  );
+  return collections.map((collection) => ({
+    filename: `${enumName(collection)}.swift`,
+    content: buildSource(collection, index, skipped),
+  }));
+}
+
+function buildSource(
+  collection: ResolvedCollection,
+  index: Map<string, IndexedToken>,
+  skipped: Set<string>
+): string {
+  const base = getBaseMode(collection);
+  const header = `// Figma Variables — ${collection.name}\n\nimport SwiftUI\nimport UIKit`;
+  if (!base) return header + '\n';
+
+  const entriesOf = (mode: ResolvedMode) =>
+    flattenTokens(mode.tokens).filter((e) => !skipped.has(e.path.join('.')));
+  const otherModes = collection.modes.filter((m) => m !== base);
+  const dark = otherModes.find((m) => toSlug(m.name) === 'dark');
+  const darkValues = new Map(
+    dark ? entriesOf(dark).map((e) => [e.path.join('.'), e]) : []
+  );
+
+  const entries = entriesOf(base);
+  const colors = entries.filter((e) => e.token.$type === 'color');
+  const constants = entries.filter((e) => e.token.$type !== 'color');
+
+  const blocks = [header];
+
+  // Constants enum, with one nested enum per other mode holding every token
+  // (colours included) with that mode's values
+  const enumBody = [
+    constants.map((e) => staticLet(e, index, base.name, '  ')).join('\n'),
+    ...otherModes.map((mode) => {
+      const body = entriesOf(mode)
+        .map((e) => staticLet(e, index, mode.name, '    '))
+        .join('\n');
+      return `  public enum ${toPascalCase(mode.name)} {\n${body}\n  }`;
+    }),
+  ].filter(Boolean);
+  blocks.push(
+    enumBody.length > 0
+      ? `public enum ${enumName(collection)} {\n${enumBody.join('\n\n')}\n}`
+      : `public enum ${enumName(collection)} {}`
+  );
+
+  if (colors.length > 0) {
+    // A "dark" mode additionally makes the colours dynamic
+    const uiColors = colors.map((e) => {
+      const name = swiftName(e);
+      const light = swiftValue(e.token, index, base.name);
+      const darkEntry = darkValues.get(e.path.join('.'));
+      const darkValue =
+        dark && darkEntry && swiftValue(darkEntry.token, index, dark.name);
+      const value =
+        darkValue && darkValue !== light
+          ? `UIColor { traits in\n    traits.userInterfaceStyle == .dark\n      ? ${darkValue}\n      : ${light}\n  }`
+          : light;
+      return `${docComment(e.token, '  ')}  static let ${name} = ${value}`;
+    });
+    blocks.push(`public extension UIColor {\n${uiColors.join('\n')}\n}`);
+
+    const swiftUIColors = colors.map((e) => {
+      const name = swiftName(e);
+      return `  static let ${name} = Color(uiColor: .${name})`;
+    });
+    blocks.push(`public extension Color {\n${swiftUIColors.join('\n')}\n}`);
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+function staticLet(
+  entry: TokenEntry,
+  index: Map<string, IndexedToken>,
+  modeName: string,
+  indent: string
+): string {
+  const type = SWIFT_TYPES[entry.token.$type];
+  const value = swiftValue(entry.token, index, modeName);
+  return `${docComment(entry.token, indent)}${indent}public static let ${swiftName(entry)}: ${type} = ${value}`;
+}
+
+function swiftValue(
+  token: DTCGToken,
+  index: Map<string, IndexedToken>,
+  modeName: string
+): string {
+  const value = token.$value;
+  if (isAlias(value)) return swiftReference(aliasPath(value), index, modeName);
+
+  switch (token.$type) {
+    case 'color': {
+      const c = parseColor(value);
+      if (!c) return `UIColor.clear /* ${value} */`;
+      return `UIColor(red: ${round3(c.r)}, green: ${round3(c.g)}, blue: ${round3(c.b)}, alpha: ${round3(c.a)})`;
+    }
+    case 'dimension':
+    case 'number':
+    case 'fontWeight':
+      return String(parseNumber(value));
+    case 'boolean':
+      return value ? 'true' : 'false';
+    default:
+      return JSON.stringify(String(value));
+  }
+}
+
+// Aliases point at the target's generated name in the matching mode: the
+// nested mode enum, or the base constant / colour. Aliases to tokens outside
+// the export never get here (unemittableTokens leaves them out).
+function swiftReference(
+  path: string[],
+  index: Map<string, IndexedToken>,
+  modeName: string
+): string {
+  const target = index.get(path.join('.')) as IndexedToken;
+  const name = swiftName(target);
+  const mode = matchingMode(target.collection, modeName);
+  if (mode && mode !== getBaseMode(target.collection)) {
+    return `${enumName(target.collection)}.${toPascalCase(mode.name)}.${name}`;
+  }
+  return target.token.$type === 'color'
+    ? `UIColor.${name}`
+    : `${enumName(target.collection)}.${name}`;
+}
+
+// How app code refers to a generated token (the Dev Mode panel's snippet)
+export function swiftTokenReference(
+  collection: Pick<ResolvedCollection, 'name'>,
+  entry: { path: string[]; token: DTCGToken }
+): string {
+  const name = swiftName(entry);
+  return entry.token.$type === 'color'
+    ? `Color.${name}`
+    : `${enumName(collection)}.${name}`;
+}
+
+function swiftName({ path, token }: { path: string[]; token: DTCGToken }) {
+  return codeSyntaxName(token.$figma?.codeSyntax.iOS) ?? toCamelCase(path);
+}
+
+function enumName(collection: Pick<ResolvedCollection, 'name'>): string {
+  return `${toPascalCase(collection.name)}Tokens`;
+}
+
+function docComment(token: DTCGToken, indent: string): string {
+  if (!token.$description) return '';
+  return (
+    token.$description
+      .split('\n')
+      .map((line) => `${indent}/// ${line}`)
+      .join('\n') + '\n'
+  );
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
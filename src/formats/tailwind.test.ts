@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DTCGGroup, DTCGToken } from '../dtcg';
+import { DEFAULT_EXPORT_OPTIONS, ExportIssue } from '../types';
+import { ResolvedCollection } from './shared';
+import { buildTailwindFiles } from './tailwind';
+
+const fontSize = (value: string): DTCGToken => ({
+  $type: 'dimension',
+  $value: value,
+  $figma: {
+    variableId: '',
+    collectionId: '',
+    codeSyntax: {},
+    scopes: ['FONT_SIZE'],
+    hiddenFromPublishing: false,
+  },
+});
+
+const collection = (name: string, tokens: DTCGGroup): ResolvedCollection => ({
+  id: name,
+  name,
+  slug: name.toLowerCase(),
+  baseMode: 'Value',
+  modes: [{ name: 'Value', tokens }],
+});
+
+const build = (collections: ResolvedCollection[]) => {
+  const issues: ExportIssue[] = [];
+  const [preset] = buildTailwindFiles(
+    collections,
+    { ...DEFAULT_EXPORT_OPTIONS, formats: ['tailwind'] },
+    issues
+  );
+  const json = preset.content.slice(preset.content.indexOf('{'), -2);
+  return { extend: JSON.parse(json).theme.extend, issues };
+};
+
+test('strips a prefix of several segments', () => {
+  const { extend } = build([
+    collection('Type', { font: { size: { body: fontSize('16px') } } }),
+  ]);
+  assert.deepEqual(extend.fontSize, { body: '16px' });
+});
+
+test('reports keys two collections end up on', () => {
+  const { extend, issues } = build([
+    collection('Base', { 'font-size': { body: fontSize('16px') } }),
+    collection('Brand', { text: { body: fontSize('18px') } }),
+  ]);
+  assert.deepEqual(extend.fontSize, { body: '16px' });
+  assert.equal(issues.length, 1);
+  assert.match(issues[0].message, /text\.body in Brand .* fontSize\.body/);
+});
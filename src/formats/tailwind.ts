@@ -0,0 +1,152 @@
+// formats/tailwind.ts — Tailwind CSS preset (tailwind.tokens.js).
+//
+//  - Tokens land in theme.extend by type and Figma scope: colours → colors,
+//    GAP / WIDTH_HEIGHT → spacing, CORNER_RADIUS → borderRadius, …
+//  - Multi-mode collections (and aliases) use var(--…) from the CSS output,
+//    which is written alongside, so `dark:` and [data-theme] switching work
+//  - Single-mode values are written as literals
+//  - Keys several tokens end up on (across collections too) are reported;
+//    the first token keeps the key
+
+import { toCssColor } from '../color';
+import { DTCGToken, flattenTokens, isAlias } from '../dtcg';
+import { ExportFile, ExportIssue, ExportOptions } from '../types';
+import { buildCssFiles, cssVarName } from './css';
+import { ResolvedCollection, getBaseMode, toKebabName } from './shared';
+
+type ThemeKey =
+  | 'colors'
+  | 'spacing'
+  | 'borderRadius'
+  | 'borderWidth'
+  | 'fontSize'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'lineHeight'
+  | 'letterSpacing'
+  | 'opacity';
+
+const SCOPE_THEME_KEYS: Record<string, ThemeKey> = {
+  GAP: 'spacing',
+  WIDTH_HEIGHT: 'spacing',
+  CORNER_RADIUS: 'borderRadius',
+  STROKE_FLOAT: 'borderWidth',
+  FONT_SIZE: 'fontSize',
+  FONT_FAMILY: 'fontFamily',
+  FONT_WEIGHT: 'fontWeight',
+  LINE_HEIGHT: 'lineHeight',
+  LETTER_SPACING: 'letterSpacing',
+  OPACITY: 'opacity',
+};
+
+// Leading path segments that only repeat the theme key ("color.bg" -> "bg",
+// "font.size.body" -> "body")
+const REDUNDANT_PREFIXES: Partial<Record<ThemeKey, string[]>> = {
+  colors: ['color', 'colors', 'colour', 'colours'],
+  spacing: ['spacing', 'space', 'gap', 'size', 'sizing'],
+  borderRadius: ['radius', 'radii', 'border-radius', 'corner-radius'],
+  borderWidth: ['border-width', 'stroke'],
+  fontSize: ['font-size', 'text'],
+  fontFamily: ['font-family', 'font'],
+  fontWeight: ['font-weight', 'weight'],
+  lineHeight: ['line-height', 'leading'],
+  letterSpacing: ['letter-spacing', 'tracking'],
+  opacity: ['opacity'],
+};
+
+export function buildTailwindFiles(
+  collections: ResolvedCollection[],
+  options: ExportOptions,
+  issues: ExportIssue[] = []
+): ExportFile[] {
+  const extend: Partial<Record<ThemeKey, Record<string, string>>> = {};
+  const owners = new Map<string, string>(); // "<theme key>.<name>" -> path
+
+  for (const collection of collections) {
+    const base = getBaseMode(collection);
+    if (!base) continue;
+    const useVariables = collection.modes.length > 1;
+
+    for (const { path, token } of flattenTokens(base.tokens)) {
+      for (const key of themeKeys(token)) {
+        const name = toKebabName(stripPrefix(path, key));
+        const owner = owners.get(`${key}.${name}`);
+        const source = `${path.join('.')} in ${collection.name}`;
+        if (owner !== undefined) {
+          issues.push({
+            severity: 'warning',
+            path: path.join('.'),
+            message: `Tailwind: ${source} and ${owner} both become ${key}.${name}, only ${owner} is written`,
+          });
+          continue;
+        }
+        owners.set(`${key}.${name}`, source);
+        const value =
+          useVariables || isAlias(token.$value)
+            ? `var(${cssVarName(path)})`
+            : token.$type === 'color'
+              ? toCssColor(token.$value)
+              : String(token.$value);
+        extend[key] = { ...extend[key], [name]: value };
+      }
+    }
+  }
+
+  // Match the selectors written by the CSS output
+  const darkMode =
+    options.cssThemeSelector === 'media-query'
+      ? 'media'
+      : ['selector', '[data-theme="dark"]'];
+
+  const preset = JSON.stringify({ darkMode, theme: { extend } }, null, 2);
+  const content = [
+    '// Figma Variables — Tailwind preset',
+    "// tailwind.config.js: presets: [require('./tailwind.tokens.js')]",
+    '// var(--…) values come from the tokens.<collection>.css files in this export.',
+    `module.exports = ${preset};`,
+  ].join('\n');
+
+  return [
+    { filename: 'tailwind.tokens.js', content: content + '\n' },
+    // The CSS format reports its own problems when it is exported as well
+    ...buildCssFiles(
+      collections,
+      options,
+      options.formats.includes('css') ? [] : issues
+    ),
+  ];
+}
+
+function themeKeys(token: DTCGToken): ThemeKey[] {
+  if (token.$type === 'color') return ['colors'];
+  const scopes = token.$figma?.scopes ?? [];
+  const keys = scopes
+    .map((scope) => SCOPE_THEME_KEYS[scope])
+    .filter((key): key is ThemeKey => key !== undefined)
+    .filter((key) =>
+      key === 'fontFamily'
+        ? token.$type === 'fontFamily' || token.$type === 'string'
+        : token.$type === 'dimension' ||
+          token.$type === 'number' ||
+          token.$type === 'fontWeight'
+    );
+  // Unscoped / ALL_SCOPES dimensions are most likely spacing
+  if (
+    keys.length === 0 &&
+    token.$type === 'dimension' &&
+    (scopes.length === 0 || scopes.includes('ALL_SCOPES'))
+  ) {
+    return ['spacing'];
+  }
+  return Array.from(new Set(keys));
+}
+
+// Longest matching prefix first; a name segment always remains
+function stripPrefix(path: string[], key: ThemeKey): string[] {
+  const prefixes = REDUNDANT_PREFIXES[key] ?? [];
+  for (let length = path.length - 1; length > 0; length--) {
+    const prefix = toKebabName(path.slice(0, length)).replace(/_/g, '-');
+    if (prefixes.includes(prefix)) return path.slice(length);
+  }
+  return path;
+}
@@ -0,0 +1,130 @@
+// formats/typescript.ts — typed ES module per collection (tokens.<collection>.ts)
+//
+//  - `tokens`: one nested `as const` object per mode (Record<Mode, …>)
+//  - `Mode` / `TokenPath` unions so renamed or removed tokens fail to compile
+//  - Aliases are written as the value they resolve to in the same mode
+//    (each hop lands in the target's same-named mode, else its base mode);
+//    aliases to tokens outside the export are reported and left out
+//  - Collections without modes have nothing to type and are skipped
+
+import {
+  DTCGGroup,
+  DTCGToken,
+  aliasPath,
+  flattenTokens,
+  isAlias,
+  isLeaf,
+} from '../dtcg';
+import { ExportFile, ExportIssue, ExportOptions } from '../types';
+import {
+  IndexedToken,
+  ResolvedCollection,
+  ResolvedMode,
+  aliasTarget,
+  getBaseMode,
+  indexTokens,
+  unemittableTokens,
+} from './shared';
+
+export function buildTypeScriptFiles(
+  collections: ResolvedCollection[],
+  _options?: ExportOptions,
+  issues: ExportIssue[] = []
+): ExportFile[] {
+  const index = indexTokens(collections);
+  const skipped = unemittableTokens(
+    collections,
+    index,
+    {
+      label: 'TypeScript',
+      name: (e) => e.path.join('.'),
+      scopes: (e) => [e.collection.id],
+    },
+    issues
+  );
+  const files: ExportFile[] = [];
+  for (const collection of collections) {
+    const base = getBaseMode(collection);
+    if (!base) {
+      issues.push({
+        severity: 'warning',
+        message: `TypeScript: ${collection.name} has no modes, no module is written`,
+      });
+      continue;
+    }
+    files.push({
+      filename: `tokens.${collection.slug}.ts`,
+      content: buildModule(collection, base, index, skipped),
+    });
+  }
+  return files;
+}
+
+function buildModule(
+  collection: ResolvedCollection,
+  base: ResolvedMode,
+  index: Map<string, IndexedToken>,
+  skipped: Set<string>
+): string {
+  const modes = collection.modes
+    .map((m) => {
+      const value = (token: DTCGToken) => resolvedValue(token, index, m.name);
+      return `  ${propertyKey(m.name)}: ${objectLiteral(m.tokens, [], value, skipped, '  ')},`;
+    })
+    .join('\n');
+  const paths = flattenTokens(base.tokens)
+    .map(({ path }) => path.join('.'))
+    .filter((path) => !skipped.has(path))
+    .map((path) => JSON.stringify(path));
+
+  return (
+    [
+      `// Figma Variables — ${collection.name}`,
+      `export const tokens = {\n${modes}\n} as const;`,
+      `export type Mode = keyof typeof tokens;`,
+      `export type Tokens = (typeof tokens)[Mode];`,
+      `export const baseMode: Mode = ${JSON.stringify(base.name)};`,
+      `export type TokenPath =\n${paths.length > 0 ? paths.map((p) => `  | ${p}`).join('\n') : '  never'};`,
+    ].join('\n\n') + '\n'
+  );
+}
+
+function objectLiteral(
+  group: DTCGGroup,
+  prefix: string[],
+  value: (token: DTCGToken) => any,
+  skipped: Set<string>,
+  indent: string
+): string {
+  const lines: string[] = [];
+  for (const [key, child] of Object.entries(group)) {
+    const path = [...prefix, key];
+    if (isLeaf(child) && skipped.has(path.join('.'))) continue;
+    const rendered = isLeaf(child)
+      ? JSON.stringify(value(child))
+      : objectLiteral(child as DTCGGroup, path, value, skipped, `${indent}  `);
+    if (rendered === '{}' && !isLeaf(child)) continue; // all left out
+    lines.push(`${indent}  ${propertyKey(key)}: ${rendered},`);
+  }
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : '{}';
+}
+
+// The literal an alias chain ends at. Only aliases to exported tokens get
+// here (unemittableTokens); cycles, reported by validation, become null.
+function resolvedValue(
+  token: DTCGToken,
+  index: Map<string, IndexedToken>,
+  modeName: string,
+  chain: string[] = []
+): any {
+  const value = token.$value;
+  if (!isAlias(value)) return value ?? null;
+  const key = aliasPath(value).join('.');
+  const target = aliasTarget(value, index, modeName);
+  if (!target || chain.includes(key)) return null;
+  return resolvedValue(target.token, index, modeName, [...chain, key]);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
@@ -0,0 +1,209 @@
+// git-push.ts — UI-side: commits exported files to a new branch and opens a
+// pull request (GitHub) or merge request (GitLab) through the REST API.
+//
+// Runs in the UI iframe, so every host it talks to has to be listed in
+// networkAccess.allowedDomains (package.json). The base URL is configurable
+// for GitHub Enterprise, self-hosted GitLab or a local mock server.
+
+import { ExportFile, GitSettings, PushResult, TokenChange } from './types';
+
+const TITLE = 'Update design tokens';
+
+export async function openPullRequest(
+  settings: GitSettings,
+  files: ExportFile[],
+  changes?: TokenChange[]
+): Promise<PushResult> {
+  if (!settings.repository.trim()) throw new Error('No repository set');
+  if (!settings.token.trim()) throw new Error('No access token set');
+  if (files.length === 0) throw new Error('Nothing to commit');
+
+  const branch = `tokens/export-${Date.now()}`;
+  const body = describe(files, changes);
+  return settings.provider === 'gitlab'
+    ? openMergeRequest(settings, files, branch, body)
+    : openGitHubPullRequest(settings, files, branch, body);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// GitHub — git data API: one tree + one commit for all files
+// ───────────────────────────────────────────────────────────────────────────────
+
+async function openGitHubPullRequest(
+  settings: GitSettings,
+  files: ExportFile[],
+  branch: string,
+  body: string
+): Promise<PushResult> {
+  const repo = `repos/${settings.repository.trim()}`;
+  const api = <T>(path: string, init?: RequestInit) =>
+    request<T>(settings, `${repo}${path}`, init, {
+      Authorization: `Bearer ${settings.token.trim()}`,
+      Accept: 'application/vnd.github+json',
+    });
+
+  const base =
+    settings.baseBranch.trim() ||
+    (await api<{ default_branch: string }>('')).default_branch;
+  const head = await api<{ object: { sha: string } }>(
+    `/git/ref/heads/${base.split('/').map(encodeURIComponent).join('/')}`
+  );
+  const parent = await api<{ tree: { sha: string } }>(
+    `/git/commits/${head.object.sha}`
+  );
+  const tree = await api<{ sha: string }>('/git/trees', {
+    method: 'POST',
+    body: JSON.stringify({
+      base_tree: parent.tree.sha,
+      tree: files.map((file) => ({
+        path: repositoryPath(settings, file.filename),
+        mode: '100644',
+        type: 'blob',
+        content: file.content,
+      })),
+    }),
+  });
+  const commit = await api<{ sha: string }>('/git/commits', {
+    method: 'POST',
+    body: JSON.stringify({
+      message: TITLE,
+      tree: tree.sha,
+      parents: [head.object.sha],
+    }),
+  });
+  await api('/git/refs', {
+    method: 'POST',
+    body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: commit.sha }),
+  });
+  const pull = await api<{ html_url: string }>('/pulls', {
+    method: 'POST',
+    body: JSON.stringify({ title: TITLE, head: branch, base, body }),
+  });
+  return { url: pull.html_url, branch };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// GitLab — commits API with create / update actions
+// ───────────────────────────────────────────────────────────────────────────────
+
+async function openMergeRequest(
+  settings: GitSettings,
+  files: ExportFile[],
+  branch: string,
+  description: string
+): Promise<PushResult> {
+  const project = `projects/${encodeURIComponent(settings.repository.trim())}`;
+  const headers = { 'PRIVATE-TOKEN': settings.token.trim() };
+  const api = <T>(path: string, init?: RequestInit) =>
+    request<T>(settings, `${project}${path}`, init, headers);
+
+  const base =
+    settings.baseBranch.trim() ||
+    (await api<{ default_branch: string }>('')).default_branch;
+
+  // The commits API needs to know whether each file already exists
+  const actions = [];
+  for (const file of files) {
+    const path = repositoryPath(settings, file.filename);
+    const exists = await fileExists(
+      settings,
+      `${project}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(base)}`,
+      headers
+    );
+    actions.push({
+      action: exists ? 'update' : 'create',
+      file_path: path,
+      content: file.content,
+    });
+  }
+
+  await api('/repository/commits', {
+    method: 'POST',
+    body: JSON.stringify({
+      branch,
+      start_branch: base,
+      commit_message: TITLE,
+      actions,
+    }),
+  });
+  const merge = await api<{ web_url: string }>('/merge_requests', {
+    method: 'POST',
+    body: JSON.stringify({
+      source_branch: branch,
+      target_branch: base,
+      title: TITLE,
+      description,
+    }),
+  });
+  return { url: merge.web_url, branch };
+}
+
+async function fileExists(
+  settings: GitSettings,
+  path: string,
+  headers: Record<string, string>
+): Promise<boolean> {
+  const response = await fetch(apiUrl(settings, path), {
+    method: 'HEAD',
+    headers,
+  });
+  if (response.status === 404) return false;
+  if (!response.ok) throw await requestError(response);
+  return true;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────────
+
+async function request<T = unknown>(
+  settings: GitSettings,
+  path: string,
+  init: RequestInit = {},
+  headers: Record<string, string>
+): Promise<T> {
+  const response = await fetch(apiUrl(settings, path), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+  if (!response.ok) throw await requestError(response);
+  return (await response.json()) as T;
+}
+
+async function requestError(response: Response): Promise<Error> {
+  let detail = response.statusText;
+  try {
+    const body = await response.json();
+    detail = body.message ?? body.error ?? detail;
+    if (typeof detail !== 'string') detail = JSON.stringify(detail);
+  } catch {
+    // not JSON — keep the status text
+  }
+  return new Error(`${response.status} ${detail}`.trim());
+}
+
+function apiUrl(settings: GitSettings, path: string): string {
+  return `${settings.baseUrl.trim().replace(/\/+$/, '')}/${path}`;
+}
+
+function repositoryPath(settings: GitSettings, filename: string): string {
+  return [settings.path, filename]
+    .map((part) => part.trim().replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/');
+}
+
+function describe(files: ExportFile[], changes?: TokenChange[]): string {
+  const lines = ['Exported from Figma variables.', '', '**Files**', ''];
+  for (const file of files) lines.push(`- \`${file.filename}\``);
+  if (changes) {
+    const count = (kind: TokenChange['kind']) =>
+      changes.filter((c) => c.kind === kind).length;
+    lines.push(
+      '',
+      `${count('added')} added, ${count('changed')} changed, ` +
+        `${count('renamed')} renamed, ${count('removed')} removed token(s)`
+    );
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildJsonFiles } from './formats/json';
+import { ResolvedCollection } from './formats/shared';
+import { parseImportFiles, syncImportedTokens } from './import';
+import { coerceScopedValue } from './scopes';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions, JsonLayout } from './types';
+
+test('reads back the naming, rem base and mode order of an export', () => {
+  const collection: ResolvedCollection = {
+    id: 'c',
+    name: 'Theme',
+    slug: 'theme',
+    baseMode: 'Light',
+    modes: ['Light', 'Dark'].map((name) => ({
+      name,
+      tokens: { ds: { gap: { $type: 'dimension', $value: '1rem' } } },
+    })),
+  };
+  const options: ExportOptions = {
+    ...DEFAULT_EXPORT_OPTIONS,
+    remBase: 10,
+    naming: { ...DEFAULT_EXPORT_OPTIONS.naming, prefix: 'ds' },
+  };
+
+  // Files come back in any order, e.g. sorted by name
+  const files = buildJsonFiles([collection], options).reverse();
+  const [imported] = parseImportFiles(files);
+
+  assert.deepEqual(imported.modeOrder, ['Light', 'Dark']);
+  assert.equal(imported.baseMode, 'Light');
+  assert.equal(imported.naming?.prefix, 'ds');
+  assert.equal(imported.remBase, 10);
+  assert.deepEqual(Array.from(imported.modes.keys()), ['Dark', 'Light']);
+});
+
+for (const jsonLayout of ['per-mode', 'per-collection'] as JsonLayout[]) {
+  test(`opacity survives an export and import round trip (${jsonLayout})`, async () => {
+    // Figma holds 50 (%) and 20; the export writes 0.5 and 0.2
+    const stored = { light: 50, dark: 20 };
+    const collection: ResolvedCollection = {
+      id: 'c',
+      name: 'Theme',
+      slug: 'theme',
+      baseMode: 'Light',
+      modes: (['Light', 'Dark'] as const).map((name) => ({
+        name,
+        tokens: {
+          muted: {
+            $type: 'number',
+            $value: coerceScopedValue(
+              'opacity',
+              stored[name === 'Light' ? 'light' : 'dark'],
+              16
+            ).value,
+            $figma: {
+              variableId: 'v',
+              collectionId: 'c',
+              codeSyntax: {},
+              scopes: ['OPACITY'],
+              hiddenFromPublishing: false,
+            },
+          },
+        },
+      })),
+    };
+    const files = buildJsonFiles([collection], {
+      ...DEFAULT_EXPORT_OPTIONS,
+      jsonLayout,
+    });
+
+    Object.assign(globalThis, {
+      figma: {
+        variables: {
+          getLocalVariableCollectionsAsync: async () => [
+            {
+              id: 'c',
+              name: 'Theme',
+              modes: [
+                { modeId: 'l', name: 'Light' },
+                { modeId: 'd', name: 'Dark' },
+              ],
+            },
+          ],
+          getLocalVariablesAsync: async () => [
+            {
+              id: 'v',
+              name: 'muted',
+              variableCollectionId: 'c',
+              scopes: ['OPACITY'],
+              valuesByMode: { l: stored.light, d: stored.dark },
+              description: '',
+            },
+          ],
+        },
+      },
+    });
+    const changes = await syncImportedTokens(
+      files,
+      { ...DEFAULT_EXPORT_OPTIONS, deleteMissing: false },
+      true
+    );
+    assert.deepEqual(changes, []);
+  });
+}
@@ -0,0 +1,452 @@
+// import.ts — DTCG JSON → Figma variables (round-trip of what we export).
+//
+// Accepts the files this plugin writes (tokens.<collection>[.<mode>].json with
+// a "tokens" root and {dot.path} aliases) and creates/updates collections,
+// modes and variables. The same walk produces the dry-run preview and applies
+// the changes, so what the preview lists is exactly what gets applied.
+//
+// Matching:
+//  - Collections by name ($metadata.name, else the filename slug)
+//  - Modes by name; files without a mode map to the collection's first mode.
+//    New modes are created base mode first, then in $metadata.modes order
+//  - Variables by dot path under the naming the files were exported with
+//    ($metadata.naming, else ImportOptions.naming), so "Color/Bg Surface"
+//    matches color.bg.surface and keeps its original name
+//  - rem values are converted with $metadata.remBase, else ImportOptions.
+//    Numbers exported as opacity (0–1) go back to Figma's 0–100, by the
+//    variable's scopes and $metadata.scopeTypes, else ImportOptions
+
+import {
+  DTCGGroup,
+  DTCGToken,
+  aliasPath,
+  flattenTokens,
+  isAlias,
+} from './dtcg';
+import { parseColor } from './color';
+import { sanitizeSegment, toSlug, toTokenPath } from './naming';
+import { scopeTypeFor, toFigmaFloat } from './scopes';
+import { STYLE_TOKEN_TYPES } from './styles';
+import {
+  ExportFile,
+  ImportChange,
+  ImportOptions,
+  NamingOptions,
+  ScopeType,
+} from './types';
+
+type ImportedToken = Pick<
+  DTCGToken,
+  '$type' | '$value' | '$description' | '$extensions'
+>;
+
+export type ImportedCollection = {
+  name: string;
+  // mode name (undefined = single-mode file) -> dot path -> token
+  modes: Map<string | undefined, Map<string, ImportedToken>>;
+  // From $metadata, when the files carry it
+  modeOrder?: string[];
+  baseMode?: string;
+  naming?: NamingOptions;
+  remBase?: number;
+  scopeTypes?: ImportOptions['scopeTypes'];
+};
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ───────────────────────────────────────────────────────────────────────────────
+
+const METADATA_NAME = /^Figma Variables — (.+?)(?: \(([^()]+)\))?$/;
+const FILENAME = /^(?:.*\/)?tokens\.([^.]+)(?:\.(.+))?\.json$/;
+
+export function parseImportFiles(files: ExportFile[]): ImportedCollection[] {
+  const collections = new Map<string, ImportedCollection>();
+  const overrides: Array<{
+    collection: ImportedCollection;
+    mode: string | undefined;
+    base: string;
+  }> = [];
+
+  for (const file of files) {
+    // Theme manifest and merged theme files repeat the collection files
+    if (/(^|\/)\$themes\.json$/.test(file.filename)) continue;
+    const data = JSON.parse(file.content);
+    if (String(data.$metadata?.name).startsWith('Figma Themes — ')) continue;
+    const tokens: DTCGGroup = data.tokens ?? data;
+
+    const fromMetadata =
+      typeof data.$metadata?.name === 'string'
+        ? data.$metadata.name.match(METADATA_NAME)
+        : null;
+    const fromFilename = file.filename.match(FILENAME);
+    const name =
+      fromMetadata?.[1] ??
+      fromFilename?.[1] ??
+      file.filename.replace(/\.json$/, '');
+    const mode = fromMetadata?.[2] ?? fromFilename?.[2];
+
+    // Style composites (typography, shadow) have no variable equivalent
+    const entries = flattenTokens(tokens).filter(
+      ({ token }) => !STYLE_TOKEN_TYPES.includes(token.$type)
+    );
+    const overridesBase = data.$metadata?.overrides;
+    if (entries.length === 0 && typeof overridesBase !== 'string') continue;
+
+    const collection: ImportedCollection = collections.get(name) ?? {
+      name,
+      modes: new Map(),
+    };
+    collections.set(name, collection);
+    const { modes, baseMode, naming, remBase, scopeTypes } =
+      data.$metadata ?? {};
+    if (Array.isArray(modes)) collection.modeOrder = modes.map(String);
+    if (typeof baseMode === 'string') collection.baseMode = baseMode;
+    if (naming && typeof naming === 'object') collection.naming = naming;
+    if (typeof remBase === 'number' && remBase > 0) {
+      collection.remBase = remBase;
+    }
+    if (scopeTypes && typeof scopeTypes === 'object') {
+      collection.scopeTypes = scopeTypes;
+    }
+    if (typeof overridesBase === 'string') {
+      // May override nothing at all; the mode still exists
+      collection.modes.set(mode, collection.modes.get(mode) ?? new Map());
+      overrides.push({ collection, mode, base: overridesBase });
+    }
+    for (const { path, token } of entries) {
+      // Per-collection files carry every mode in $extensions["com.figma"].modes
+      const modes = token.$extensions?.['com.figma']?.modes;
+      const values: Array<[string | undefined, any]> =
+        modes && typeof modes === 'object' && Object.keys(modes).length > 0
+          ? Object.entries(modes)
+          : [[mode, token.$value]];
+      for (const [modeName, value] of values) {
+        const tokens = collection.modes.get(modeName) ?? new Map();
+        collection.modes.set(modeName, tokens);
+        tokens.set(path.join('.'), { ...token, $value: value });
+      }
+    }
+  }
+
+  // Override-only mode files: everything they leave out comes from the base
+  for (const { collection, mode, base } of overrides) {
+    const tokens = collection.modes.get(mode);
+    collection.modes.get(base)?.forEach((token, path) => {
+      if (tokens && !tokens.has(path)) tokens.set(path, token);
+    });
+  }
+
+  return Array.from(collections.values());
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Preview / apply
+// ───────────────────────────────────────────────────────────────────────────────
+
+export async function syncImportedTokens(
+  files: ExportFile[],
+  options: ImportOptions,
+  dryRun: boolean
+): Promise<ImportChange[]> {
+  const imported = parseImportFiles(files);
+  const changes: ImportChange[] = [];
+  const existingCollections =
+    await figma.variables.getLocalVariableCollectionsAsync();
+  const allVariables = await figma.variables.getLocalVariablesAsync();
+
+  // One export writes every file with the same settings
+  const naming = imported.find((c) => c.naming)?.naming ?? options.naming;
+  const remBase = imported.find((c) => c.remBase)?.remBase ?? options.remBase;
+  const scopeTypes =
+    imported.find((c) => c.scopeTypes)?.scopeTypes ?? options.scopeTypes;
+  const variableKey = (name: string) => toTokenPath(name, naming).join('.');
+
+  // Dot path -> variable, for matching and for alias targets. Variables
+  // created by this import are added as we go (in a dry run: by name only).
+  const byPath = new Map<string, Variable | string>(
+    allVariables.map((v) => [variableKey(v.name), v])
+  );
+  const pending: PendingVariable[] = [];
+
+  // Pass 1: collections, modes and variables
+  for (const source of imported) {
+    let collection = existingCollections.find(
+      (c) => c.name === source.name || toSlug(c.name) === source.name
+    );
+    const isNew = !collection;
+    if (isNew) {
+      changes.push(change('create', 'collection', source.name, source.name));
+      if (!dryRun) {
+        collection = figma.variables.createVariableCollection(source.name);
+      }
+    }
+
+    const modeIds = new Map<string | undefined, string | undefined>();
+    orderedModes(source).forEach((modeName, i) => {
+      const existing = isNew
+        ? undefined
+        : (collection?.modes.find((m) => m.name === modeName) ??
+          (modeName === undefined ? collection?.modes[0] : undefined));
+      if (existing) {
+        modeIds.set(modeName, existing.modeId);
+        return;
+      }
+      changes.push(change('create', 'mode', source.name, modeName ?? 'Mode 1'));
+      if (dryRun || !collection) return;
+      if (isNew && i === 0) {
+        // A new collection starts with one mode: rename it
+        const modeId = collection.modes[0].modeId;
+        if (modeName) collection.renameMode(modeId, modeName);
+        modeIds.set(modeName, modeId);
+      } else {
+        modeIds.set(modeName, collection.addMode(modeName ?? 'Mode 1'));
+      }
+    });
+
+    const paths = new Set<string>();
+    source.modes.forEach((tokens) =>
+      tokens.forEach((_, path) => paths.add(path))
+    );
+
+    for (const path of Array.from(paths)) {
+      const values: PendingVariable['values'] = [];
+      source.modes.forEach((tokens, modeName) => {
+        const token = tokens.get(path);
+        if (token) {
+          values.push({ modeId: modeIds.get(modeName), modeName, token });
+        }
+      });
+      const first = values[0].token;
+      // Only variables of this collection are updated; byPath is global
+      // because aliases may cross collections
+      const match = allVariables.find(
+        (v) =>
+          v.variableCollectionId === collection?.id &&
+          variableKey(v.name) === path
+      );
+      let variable = match;
+      const name = variable?.name ?? variableName(path, naming);
+
+      if (!variable) {
+        changes.push(
+          change('create', 'variable', source.name, name, first.$type)
+        );
+        if (collection && !dryRun) {
+          variable = figma.variables.createVariable(
+            name,
+            collection,
+            figmaType(first)
+          );
+        }
+        byPath.set(path, variable ?? name);
+      }
+      pending.push({
+        variable,
+        isNew: !match,
+        name,
+        collection: source.name,
+        values,
+        description: first.$description ?? '',
+      });
+    }
+
+    // Variables in this collection the import no longer has
+    if (options.deleteMissing && collection && !isNew) {
+      for (const variable of allVariables) {
+        if (variable.variableCollectionId !== collection.id) continue;
+        if (paths.has(variableKey(variable.name))) continue;
+        changes.push(change('delete', 'variable', source.name, variable.name));
+        if (!dryRun) variable.remove();
+      }
+    }
+  }
+
+  // Pass 2: values and descriptions, now that every alias target exists
+  for (const item of pending) {
+    const details: string[] = [];
+    for (const { modeId, modeName, token } of item.values) {
+      const mode = modeName ?? 'default';
+      // Scopes the export saw: recorded in per-collection files, else the
+      // variable's own (a created one has none yet)
+      const scopes: string[] =
+        token.$extensions?.['com.figma']?.scopes ??
+        (item.isNew ? [] : (item.variable?.scopes ?? []));
+      const next = toFigmaValue(
+        token,
+        byPath,
+        remBase,
+        scopeTypeFor('FLOAT', scopes, scopeTypes)
+      );
+      if (next === undefined) {
+        changes.push(
+          change(
+            'skip',
+            'variable',
+            item.collection,
+            item.name,
+            `${mode}: cannot convert ${JSON.stringify(token.$value)}`
+          )
+        );
+        continue;
+      }
+      const current =
+        item.variable && modeId
+          ? item.variable.valuesByMode[modeId]
+          : undefined;
+      if (current !== undefined && sameValue(current, next)) continue;
+      details.push(`${mode}: ${JSON.stringify(token.$value)}`);
+      if (dryRun || !item.variable || !modeId) continue;
+      item.variable.setValueForMode(
+        modeId,
+        'alias' in next
+          ? figma.variables.createVariableAlias(next.alias as Variable)
+          : next.value
+      );
+    }
+
+    if ((item.variable?.description ?? '') !== item.description) {
+      details.push('description');
+      if (!dryRun && item.variable)
+        item.variable.description = item.description;
+    }
+
+    // Created variables are already listed; only report real updates
+    if (!item.isNew && details.length > 0) {
+      changes.push(
+        change(
+          'update',
+          'variable',
+          item.collection,
+          item.name,
+          details.join(', ')
+        )
+      );
+    }
+  }
+
+  return changes;
+}
+
+type PendingVariable = {
+  variable: Variable | undefined; // undefined while dry-running a create
+  isNew: boolean;
+  name: string;
+  collection: string;
+  values: Array<{
+    modeId: string | undefined;
+    modeName: string | undefined;
+    token: ImportedToken;
+  }>;
+  description: string;
+};
+
+type FigmaValue =
+  | { value: Exclude<VariableValue, VariableAlias> }
+  | { alias: Variable | string }; // string: created in this dry run
+
+function change(
+  action: ImportChange['action'],
+  kind: ImportChange['kind'],
+  collection: string,
+  name: string,
+  detail?: string
+): ImportChange {
+  return { action, kind, collection, name, detail };
+}
+
+// The default mode comes first: a new collection's only mode is renamed to
+// it. Then the exported order; modes only files mention go last.
+function orderedModes(source: ImportedCollection): Array<string | undefined> {
+  const order = source.modeOrder ?? [];
+  const rank = (mode: string | undefined) => {
+    if (mode !== undefined && mode === source.baseMode) return -1;
+    const i = mode === undefined ? -1 : order.indexOf(mode);
+    return i === -1 ? order.length : i;
+  };
+  return Array.from(source.modes.keys()).sort((a, b) => rank(a) - rank(b));
+}
+
+// Name for a variable the import creates: the path without the naming
+// prefix ("ds.color.bg" -> "color/bg")
+function variableName(path: string, naming: NamingOptions): string {
+  const prefix = toTokenPath('', { ...naming, stripSegments: 0 });
+  const segments = path.split('.');
+  const prefixed = prefix.every((seg, i) => segments[i] === seg);
+  return (prefixed ? segments.slice(prefix.length) : segments).join('/');
+}
+
+function figmaType(token: ImportedToken): VariableResolvedDataType {
+  switch (token.$type) {
+    case 'color':
+      return 'COLOR';
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'string':
+    case 'fontFamily':
+      return 'STRING';
+    case 'fontWeight':
+      return typeof token.$value === 'string' && !isAlias(token.$value)
+        ? 'STRING'
+        : 'FLOAT';
+    default:
+      return 'FLOAT';
+  }
+}
+
+// DTCG value -> Figma value; undefined when it cannot be converted
+function toFigmaValue(
+  token: ImportedToken,
+  byPath: Map<string, Variable | string>,
+  remBase: number,
+  scopeType: ScopeType
+): FigmaValue | undefined {
+  const value = token.$value;
+  if (isAlias(value)) {
+    // Exported aliases use the same paths as the tokens; hand-written ones
+    // may not be sanitized yet
+    const path = aliasPath(value);
+    const target =
+      byPath.get(path.join('.')) ??
+      byPath.get(path.map(sanitizeSegment).join('.'));
+    return target === undefined ? undefined : { alias: target };
+  }
+  switch (figmaType(token)) {
+    case 'COLOR': {
+      const c = parseColor(value);
+      return c ? { value: { r: c.r, g: c.g, b: c.b, a: c.a } } : undefined;
+    }
+    case 'FLOAT': {
+      // Figma variables hold px (and opacity as 0–100)
+      const n = toFigmaFloat(scopeType, value, remBase);
+      return Number.isNaN(n) ? undefined : { value: n };
+    }
+    case 'BOOLEAN':
+      return { value: Boolean(value) };
+    default:
+      return { value: String(value) };
+  }
+}
+
+function sameValue(current: VariableValue, next: FigmaValue): boolean {
+  const currentIsAlias = typeof current === 'object' && 'type' in current;
+  if ('alias' in next) {
+    return (
+      currentIsAlias &&
+      typeof next.alias === 'object' &&
+      (current as VariableAlias).id === next.alias.id
+    );
+  }
+  if (currentIsAlias) return false;
+  if (typeof current === 'object' && typeof next.value === 'object') {
+    const a = current as RGBA;
+    const b = next.value as RGBA;
+    const close = (x: number, y: number) => Math.abs(x - y) < 0.5 / 255;
+    return (
+      close(a.r, b.r) &&
+      close(a.g, b.g) &&
+      close(a.b, b.b) &&
+      close(a.a ?? 1, b.a ?? 1)
+    );
+  }
+  return current === next.value;
+}
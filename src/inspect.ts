@@ -0,0 +1,147 @@
+// inspect.ts — Dev Mode inspect panel: the variables bound to the selected
+// layers, under the token path and code references the export produces.
+//
+// Paths follow the naming, remote prefix and scope types of the last export
+// (main.ts keeps them); snippets come from the same helpers the CSS / Swift /
+// Compose formatters name their output with.
+
+import { DTCGToken } from './dtcg';
+import { cssVarName } from './formats/css';
+import { composeTokenReference } from './formats/android';
+import { swiftTokenReference } from './formats/swift';
+import { variableTokenPath } from './naming';
+import { scopeDtcgType, scopeTypeFor } from './scopes';
+import { BoundToken, BoundTokenGroup, ExportOptions } from './types';
+
+const TEXT_FIELDS = new Set<string>([
+  'fontFamily',
+  'fontSize',
+  'fontStyle',
+  'fontWeight',
+  'letterSpacing',
+  'lineHeight',
+  'paragraphSpacing',
+  'paragraphIndent',
+]);
+
+export async function inspectSelection(
+  options: ExportOptions
+): Promise<BoundToken[]> {
+  const tokens: BoundToken[] = [];
+  const seen = new Set<string>();
+
+  for (const node of figma.currentPage.selection) {
+    for (const { field, id } of boundAliases(node.boundVariables ?? {})) {
+      const key = `${node.id}:${field}:${id}`;
+      if (seen.has(key)) continue; // text fields repeat per segment
+      seen.add(key);
+
+      const variable = await figma.variables.getVariableByIdAsync(id);
+      if (!variable) continue;
+      const collection = await figma.variables.getVariableCollectionByIdAsync(
+        variable.variableCollectionId
+      );
+      tokens.push(
+        describeBinding(
+          node.name,
+          field,
+          variable,
+          collection?.name ?? '',
+          options
+        )
+      );
+    }
+  }
+
+  return tokens;
+}
+
+function describeBinding(
+  nodeName: string,
+  field: string,
+  variable: Variable,
+  collection: string,
+  options: ExportOptions
+): BoundToken {
+  const path = variableTokenPath(
+    variable,
+    options.naming,
+    options.remoteAliasPrefix
+  );
+  const entry = { path, token: tokenFor(variable, options) };
+  return {
+    nodeName,
+    field,
+    group: groupOf(field),
+    variableId: variable.id,
+    name: variable.name,
+    collection,
+    path: path.join('.'),
+    snippets: {
+      css: `var(${cssVarName(path)})`,
+      swift: swiftTokenReference({ name: collection }, entry),
+      compose: composeTokenReference({ name: collection }, entry),
+    },
+  };
+}
+
+// Just what the reference helpers look at: the type and the code syntax
+function tokenFor(variable: Variable, options: ExportOptions): DTCGToken {
+  const $type: DTCGToken['$type'] =
+    variable.resolvedType === 'COLOR'
+      ? 'color'
+      : variable.resolvedType === 'BOOLEAN'
+        ? 'boolean'
+        : scopeDtcgType(
+            scopeTypeFor(
+              variable.resolvedType,
+              variable.scopes,
+              options.scopeTypes
+            )
+          );
+  return {
+    $type,
+    $figma: {
+      variableId: variable.id,
+      collectionId: variable.variableCollectionId,
+      codeSyntax: { ...variable.codeSyntax },
+      scopes: [...variable.scopes],
+      hiddenFromPublishing: variable.hiddenFromPublishing,
+    },
+  };
+}
+
+// node.boundVariables maps a field to an alias, a list of aliases (fills,
+// strokes, effects, text segments) or, for component properties, a record
+export function boundAliases(
+  bound: object,
+  field?: string
+): Array<{ field: string; id: string }> {
+  const found: Array<{ field: string; id: string }> = [];
+  for (const [key, value] of Object.entries(bound)) {
+    const name = field ?? key;
+    if (!value || typeof value !== 'object') continue;
+    if (Array.isArray(value)) {
+      for (const item of value)
+        found.push(...boundAliases({ [key]: item }, name));
+    } else if (value.type === 'VARIABLE_ALIAS') {
+      found.push({ field: name, id: value.id });
+    } else {
+      found.push(...boundAliases(value, name));
+    }
+  }
+  return found;
+}
+
+function groupOf(field: string): BoundTokenGroup {
+  if (field === 'fills' || field === 'textRangeFills') return 'Fill';
+  if (field === 'strokes' || field.startsWith('stroke')) return 'Stroke';
+  if (TEXT_FIELDS.has(field)) return 'Typography';
+  if (field.endsWith('Radius')) return 'Radius';
+  if (field.startsWith('padding') || field.endsWith('Spacing')) {
+    return 'Spacing';
+  }
+  if (/^(min|max)?(width|height)$/i.test(field)) return 'Size';
+  if (field === 'effects') return 'Effect';
+  return 'Other';
+}
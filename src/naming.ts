@@ -0,0 +1,111 @@
+// naming.ts — token path & filename helpers shared by the exporter and the
+// output formats.
+
+import { NamingOptions, PathCase } from './types';
+
+// "Color/Bg Surface" -> "Color.Bg.Surface"
+export function toDotPath(name: string): string {
+  return name
+    .trim()
+    .replace(/[\/\s]+/g, '.')
+    .replace(/\.+/g, '.');
+}
+
+export function sanitizeSegment(seg: string): string {
+  return seg
+    .trim()
+    .replace(/[^\w\-]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+}
+
+export function toSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-') // spaces & punctuation -> dashes
+    .replace(/^-+|-+$/g, '') // trim dashes
+    .replace(/--+/g, '-'); // collapse repeats
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Configurable naming (ExportOptions.naming)
+// ───────────────────────────────────────────────────────────────────────────────
+
+// Figma name -> token path segments: group segments stripped, prefix added,
+// each segment in the configured case. 'lower' is the original style
+// (toDotPath + sanitizeSegment, spaces also split groups); the other cases
+// split groups on "/" only and treat spaces as word breaks.
+export function toTokenPath(name: string, naming: NamingOptions): string[] {
+  const segments = splitName(name, naming);
+  const stripped =
+    naming.stripSegments > 0
+      ? segments.slice(Math.min(naming.stripSegments, segments.length - 1))
+      : segments;
+  const prefix = naming.prefix.trim() ? splitName(naming.prefix, naming) : [];
+  return [...prefix, ...stripped];
+}
+
+// Path a variable is exported (and referenced) under; library variables get
+// the remote prefix right after the configured path prefix
+export function variableTokenPath(
+  variable: { name: string; remote: boolean },
+  naming: NamingOptions,
+  remotePrefix: string
+): string[] {
+  const prefix =
+    variable.remote && remotePrefix
+      ? `${naming.prefix}/${remotePrefix}`
+      : naming.prefix;
+  return toTokenPath(variable.name, { ...naming, prefix });
+}
+
+function splitName(name: string, naming: NamingOptions): string[] {
+  const segments =
+    naming.pathCase === 'lower'
+      ? toDotPath(name).split('.').map(sanitizeSegment)
+      : name.split('/').map((seg) => applyCase(seg, naming.pathCase));
+  return segments.filter(Boolean);
+}
+
+function applyCase(segment: string, pathCase: PathCase): string {
+  if (pathCase === 'preserve') {
+    // Dots and braces would break dot paths and {alias} references
+    return segment.trim().replace(/[.{}]+/g, '_');
+  }
+  const words = segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((w) => w.toLowerCase());
+  switch (pathCase) {
+    case 'camel':
+      return words
+        .map((w, i) => (i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1)))
+        .join('');
+    case 'snake':
+      return words.join('_');
+    default:
+      return words.join('-');
+  }
+}
+
+// "tokens.{collection}.{mode}.json" -> "tokens.web.high-contrast.json".
+// Without a mode (single-mode collections, one file per collection) the
+// {mode} placeholder goes away together with its separator; templates
+// without {mode} get the mode before the extension.
+export function renderFilename(
+  template: string,
+  collectionSlug: string,
+  mode: string | undefined
+): string {
+  const withMode =
+    mode === undefined
+      ? template.replace(/[./_-]?\{mode\}|\{mode\}[./_-]?/, '')
+      : template.includes('{mode}')
+        ? template.replace(/\{mode\}/g, toSlug(mode))
+        : // Modes must not overwrite each other
+          template.replace(/(\.[^./]+)?$/, `.${toSlug(mode)}$1`);
+  return withMode.replace(/\{collection\}/g, collectionSlug);
+}
@@ -0,0 +1,567 @@
+// pipeline.ts — Figma variables → output files, independent of the runtime.
+//
+// Everything here reads variables through a VariableSource: the plugin feeds
+// it from the figma.variables API (main.ts), the CLI from the REST API's
+// GET /v1/files/:key/variables/local response (rest.ts, cli.ts). Nothing in
+// this module touches the figma global, so it runs in Node as well.
+
+import { resolveAliases } from './aliases';
+import { buildChangelog, diffTokens } from './changelog';
+import {
+  DTCGGroup,
+  DTCGToken,
+  isLeaf,
+  isVariableAlias,
+  resolveMode,
+} from './dtcg';
+import { FORMATTERS } from './formats';
+import { ImportedCollection, parseImportFiles } from './import';
+import { ResolvedCollection } from './formats/shared';
+import { toSlug, variableTokenPath } from './naming';
+import { validateVariables } from './validate';
+import { createVariableFilter, isFilterActive } from './filter';
+import { formatColor } from './color';
+import { StyleAliasResolver } from './styles';
+import { buildThemeFiles } from './themes';
+import { coerceScopedValue, scopeDtcgType, scopeTypeFor } from './scopes';
+import {
+  ColorFormat,
+  ExportFile,
+  ExportIssue,
+  ExportOptions,
+  NamingOptions,
+  SourceCollection,
+  SourceVariable,
+  TokenChange,
+  ZipPayload,
+} from './types';
+
+// Where the pipeline gets its variables from
+export interface VariableSource {
+  collections: SourceCollection[]; // local collections
+  variables: SourceVariable[]; // local variables
+  // Usage scope (ExportOptions.usage): the variables bound to nodes in it;
+  // unset exports every variable of the selected collections
+  usedVariableIds?: Iterable<string>;
+  // Library variables and collections that local aliases point at
+  getVariableById(id: string): Promise<SourceVariable | null>;
+  getCollectionById(id: string): Promise<SourceCollection | null>;
+  // Text / effect styles as DTCG files (styles.ts); plugin only
+  buildStyleFiles?: (
+    aliasFor: StyleAliasResolver,
+    options: ExportOptions,
+    issues: ExportIssue[]
+  ) => Promise<ExportFile[]>;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Export pipeline
+// ───────────────────────────────────────────────────────────────────────────────
+
+// Builds every output file for the selected collections; the caller decides
+// whether they are zipped, previewed, pushed or written to disk
+export async function exportCollections(
+  source: VariableSource,
+  selectedCollections: string[],
+  options: ExportOptions,
+  previousExport: ExportFile[] = []
+): Promise<ZipPayload | undefined> {
+  const allCollections = source.collections;
+  const chosen = allCollections.filter((c) =>
+    selectedCollections.includes(c.id)
+  );
+  if (chosen.length === 0) return;
+
+  const localVariables = source.variables;
+  const issues: ExportIssue[] = [];
+  const context: VariableContext = {
+    allVariables: [
+      ...localVariables,
+      ...(await loadRemoteAliasTargets(source, localVariables)),
+    ],
+    remotePrefix: options.remoteAliasPrefix,
+    scopeTypes: options.scopeTypes,
+    remBase: options.remBase,
+    colorFormat: options.colorFormat,
+    colorPrecision: options.colorPrecision,
+    naming: options.naming,
+    baseModes: options.baseModes,
+  };
+
+  // Usage scope: only variables bound in the selection / page / document,
+  // plus whatever they alias; collections without any of them are dropped
+  const used = source.usedVariableIds
+    ? withAliasTargets(source.usedVariableIds, context.allVariables)
+    : undefined;
+  const exported = used
+    ? chosen.filter((c) =>
+        context.allVariables.some(
+          (v) => v.variableCollectionId === c.id && used.has(v.id)
+        )
+      )
+    : chosen;
+  if (exported.length === 0) {
+    issues.push({
+      severity: 'warning',
+      message: `None of the selected collections' variables are used in the ${options.usage === 'document' ? 'document' : `current ${options.usage}`}`,
+    });
+    return { zipName: '', files: [], issues };
+  }
+
+  const filter = createVariableFilter(options.filter);
+  const include = used
+    ? (v: SourceVariable) => used.has(v.id) && filter(v)
+    : filter;
+  issues.push(
+    ...validateVariables(
+      exported,
+      context.allVariables,
+      (v) => variablePath(v, context),
+      include
+    )
+  );
+  if (options.blockOnErrors && issues.some((i) => i.severity === 'error')) {
+    return { zipName: '', files: [], issues, blocked: true };
+  }
+
+  let resolved: ResolvedCollection[] = [];
+  for (const collection of exported) {
+    resolved.push(await resolveCollection(collection, context, include));
+  }
+
+  // Aliases may point into collections that are not being exported
+  const lookup =
+    options.aliases === 'resolve' ||
+    (options.themeManifest && options.mergeThemes)
+      ? await buildAliasLookup(
+          source,
+          isFilterActive(options.filter) || used ? [] : resolved,
+          context
+        )
+      : [];
+  if (options.aliases === 'resolve') {
+    resolved = resolveAliases(resolved, lookup, options, issues);
+  }
+
+  const files: ExportFile[] = [];
+  for (const format of options.formats) {
+    for (const file of FORMATTERS[format](resolved, options, issues)) {
+      // Formats may share companion files (e.g. Tailwind + CSS variables)
+      if (files.some((f) => f.filename === file.filename)) continue;
+      files.push(file);
+    }
+  }
+  if (
+    options.formats.includes('dtcg') &&
+    options.includeStyles &&
+    source.buildStyleFiles
+  ) {
+    const aliasFor = async (id: string) => {
+      const variable =
+        context.allVariables.find((v) => v.id === id) ??
+        (await source.getVariableById(id));
+      return variable ? `{${variablePath(variable, context)}}` : undefined;
+    };
+    files.push(...(await source.buildStyleFiles(aliasFor, options, issues)));
+  }
+  if (options.formats.includes('dtcg') && options.themeManifest) {
+    files.push(
+      ...buildThemeFiles(
+        resolved,
+        lookup,
+        options,
+        files.map((f) => f.filename)
+      )
+    );
+  }
+
+  let changes: TokenChange[] | undefined;
+  const previous =
+    previousExport.length > 0
+      ? parsePreviousExport(previousExport, issues)
+      : undefined;
+  if (previous) {
+    changes = diffTokens(previous, resolved);
+    files.push({ filename: 'CHANGELOG.md', content: buildChangelog(changes) });
+  }
+
+  return {
+    zipName: `tokens-${Date.now()}.zip`,
+    files,
+    issues,
+    changes,
+  };
+}
+
+// Every collection an alias can land in, resolved: all local collections
+// plus the library collections remote targets live in. Filtered-out
+// variables stay in here so aliases to them can still be resolved.
+async function buildAliasLookup(
+  source: VariableSource,
+  resolved: ResolvedCollection[],
+  context: VariableContext
+): Promise<ResolvedCollection[]> {
+  const lookupCollections: SourceCollection[] = [...source.collections];
+  for (const id of remoteCollectionIds(context.allVariables)) {
+    const remote = await source.getCollectionById(id);
+    if (remote) lookupCollections.push(remote);
+  }
+  const lookup: ResolvedCollection[] = [];
+  for (const collection of lookupCollections) {
+    lookup.push(
+      resolved.find((r) => r.id === collection.id) ??
+        (await resolveCollection(collection, context))
+    );
+  }
+  return lookup;
+}
+
+// Only the DTCG JSON files of a previous export take part in the diff
+function parsePreviousExport(
+  files: ExportFile[],
+  issues: ExportIssue[]
+): ImportedCollection[] | undefined {
+  try {
+    return parseImportFiles(files.filter((f) => f.filename.endsWith('.json')));
+  } catch (err) {
+    issues.push({
+      severity: 'warning',
+      message: `Previous export could not be read, no changelog written: ${err instanceof Error ? err.message : String(err)}`,
+    });
+    return undefined;
+  }
+}
+
+// Collection → one resolved token tree per mode
+async function resolveCollection(
+  collection: SourceCollection,
+  context: VariableContext,
+  include: (variable: SourceVariable) => boolean = () => true
+): Promise<ResolvedCollection> {
+  // Build this collection’s token tree (may contain $modes on leaves)
+  const tree = await convertCollectionToIntermediateDTCG(
+    collection,
+    context,
+    include
+  );
+
+  const modeNames = collection.modes.map((m) => m.name);
+  // The user's pick, else the collection's default mode in Figma
+  const chosenBase = context.baseModes[collection.id];
+  const baseMode = modeNames.includes(chosenBase)
+    ? chosenBase
+    : (collection.modes.find((m) => m.modeId === collection.defaultModeId)
+        ?.name ?? modeNames[0]);
+
+  return {
+    id: collection.id,
+    name: collection.name,
+    // Slug for filenames: "Web Semantics" -> "web-semantics"
+    slug: toSlug(collection.name),
+    baseMode: baseMode ?? 'default',
+    modes: (modeNames.length > 0 ? modeNames : ['default']).map((mode) => ({
+      name: mode,
+      tokens: resolveMode(tree, mode, baseMode),
+    })),
+  };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Remote (library) alias targets
+// ───────────────────────────────────────────────────────────────────────────────
+
+// Every variable the pipeline can reference: local ones plus library variables
+// that aliases point at. Remote paths get `remotePrefix` so they stay unique.
+type VariableContext = {
+  allVariables: SourceVariable[];
+  remotePrefix: string;
+  scopeTypes: ExportOptions['scopeTypes'];
+  remBase: number;
+  colorFormat: ColorFormat;
+  colorPrecision: number;
+  naming: NamingOptions;
+  baseModes: ExportOptions['baseModes'];
+};
+
+// The local variables only cover this file; follow alias ids that point
+// elsewhere (published libraries) through the source, transitively
+async function loadRemoteAliasTargets(
+  source: VariableSource,
+  localVariables: SourceVariable[]
+): Promise<SourceVariable[]> {
+  const known = new Map(localVariables.map((v) => [v.id, v]));
+  const missing = new Set<string>();
+  const remote: SourceVariable[] = [];
+  let pending = localVariables;
+
+  while (pending.length > 0) {
+    const next: SourceVariable[] = [];
+    for (const variable of pending) {
+      for (const value of Object.values(variable.valuesByMode)) {
+        if (!isVariableAlias(value)) continue;
+        if (known.has(value.id) || missing.has(value.id)) continue;
+        const target = await source.getVariableById(value.id);
+        if (!target) {
+          missing.add(value.id); // reported by validateVariables
+          continue;
+        }
+        known.set(target.id, target);
+        remote.push(target);
+        next.push(target);
+      }
+    }
+    pending = next;
+  }
+
+  return remote;
+}
+
+// Variables plus everything they alias (in any mode), transitively
+function withAliasTargets(
+  ids: Iterable<string>,
+  variables: SourceVariable[]
+): Set<string> {
+  const byId = new Map(variables.map((v) => [v.id, v]));
+  const result = new Set<string>();
+  const pending = Array.from(ids);
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    if (result.has(id)) continue;
+    result.add(id);
+    for (const value of Object.values(byId.get(id)?.valuesByMode ?? {})) {
+      if (isVariableAlias(value)) pending.push(value.id);
+    }
+  }
+  return result;
+}
+
+function remoteCollectionIds(variables: SourceVariable[]): string[] {
+  const ids = variables
+    .filter((v) => v.remote)
+    .map((v) => v.variableCollectionId);
+  return Array.from(new Set(ids));
+}
+
+// Dot path a variable is exported (and referenced) under
+function variablePath(
+  variable: SourceVariable,
+  context: VariableContext
+): string {
+  return variableTokenPath(variable, context.naming, context.remotePrefix).join(
+    '.'
+  );
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Collection → Intermediate DTCG (may contain $modes at leaves)
+// ───────────────────────────────────────────────────────────────────────────────
+
+async function convertCollectionToIntermediateDTCG(
+  collection: SourceCollection,
+  context: VariableContext,
+  include: (variable: SourceVariable) => boolean
+): Promise<DTCGGroup> {
+  const varsInCollection = context.allVariables.filter(
+    (v) => v.variableCollectionId === collection.id && include(v)
+  );
+
+  const root: DTCGGroup = {};
+
+  for (const variable of varsInCollection) {
+    const path = variablePath(variable, context).split('.');
+    setLeafToken(root, path, variable, collection, context);
+  }
+
+  return root;
+}
+
+function setLeafToken(
+  root: DTCGGroup,
+  path: string[],
+  variable: SourceVariable,
+  collection: SourceCollection,
+  context: VariableContext
+) {
+  const last = path[path.length - 1];
+  let cursor: DTCGGroup = root;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const seg = path[i];
+    if (
+      !cursor[seg] ||
+      typeof cursor[seg] !== 'object' ||
+      isLeaf(cursor[seg])
+    ) {
+      cursor[seg] = {};
+    }
+    cursor = cursor[seg] as DTCGGroup;
+  }
+
+  // A group wins over a token on the same path, whichever comes first
+  // (validateVariables reports it)
+  const existing = cursor[last];
+  if (existing && typeof existing === 'object' && !isLeaf(existing)) return;
+  cursor[last] = buildTokenWithModes(variable, collection, context);
+}
+
+// Build a token that either has a single $value or $modes (when values differ by mode)
+function buildTokenWithModes(
+  variable: SourceVariable,
+  collection: SourceCollection,
+  context: VariableContext
+): DTCGToken {
+  // Gather values per mode
+  const perMode: Record<string, any> = {};
+  let hasAnyModeValue = false;
+  let tokenType: DTCGToken['$type'] | null = null; // Capture type from first coerceTypeAndUnits call for FLOAT/STRING
+
+  for (const m of collection.modes) {
+    const raw = variable.valuesByMode[m.modeId];
+    if (raw !== undefined) {
+      const converted = convertVariableValue(variable, raw, context);
+      const coerced = coerceTypeAndUnits(variable, converted, context);
+      // Capture type from first call for FLOAT/STRING types (type depends on scopes, not value)
+      if (tokenType === null && isScoped(variable)) {
+        tokenType = coerced.type;
+      }
+      perMode[m.name] = coerced.value;
+      hasAnyModeValue = true;
+    }
+  }
+
+  // If no explicit values found, try a naive fallback to the first mode that has a value
+  if (!hasAnyModeValue) {
+    for (const m of collection.modes) {
+      const raw = variable.valuesByMode[m.modeId];
+      if (raw !== undefined) {
+        const converted = convertVariableValue(variable, raw, context);
+        const coerced = coerceTypeAndUnits(variable, converted, context);
+        // Capture type from first call for FLOAT/STRING types
+        if (tokenType === null && isScoped(variable)) {
+          tokenType = coerced.type;
+        }
+        perMode[m.name] = coerced.value;
+        hasAnyModeValue = true;
+        break;
+      }
+    }
+  }
+
+  // Decide if modes actually differ
+  const unique = new Set(Object.values(perMode).map((v) => JSON.stringify(v)));
+
+  // For FLOAT/STRING types, use the type from coerceTypeAndUnits (considers scopes)
+  // For other types, use mapDtcgType
+  const finalTokenType =
+    tokenType !== null ? tokenType : mapDtcgType(variable.resolvedType);
+
+  const token: DTCGToken = { $type: finalTokenType };
+
+  if (unique.size > 1) {
+    token.$modes = perMode;
+  } else {
+    // Single value (choose any)
+    const anyMode = Object.keys(perMode)[0];
+    if (anyMode !== undefined) {
+      token.$value = perMode[anyMode];
+    }
+  }
+
+  if (variable.description) token.$description = variable.description;
+  token.$figma = {
+    variableId: variable.id,
+    collectionId: variable.variableCollectionId,
+    codeSyntax: { ...variable.codeSyntax },
+    scopes: [...variable.scopes],
+    hiddenFromPublishing: variable.hiddenFromPublishing,
+  };
+  return token;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Value & type conversion helpers
+// ───────────────────────────────────────────────────────────────────────────────
+
+function mapDtcgType(resolved: VariableResolvedDataType): DTCGToken['$type'] {
+  switch (resolved) {
+    case 'COLOR':
+      return 'color';
+    case 'FLOAT':
+      // We’ll coerce to "dimension" with px by default; can be "number" if no unit.
+      return 'dimension';
+    case 'STRING':
+      return 'string';
+    case 'BOOLEAN':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+}
+
+// Normalize alias/color/primitive values from Figma
+function convertVariableValue(
+  variable: SourceVariable,
+  value: VariableValue,
+  context: VariableContext
+): any {
+  // Aliases (local, or remote targets loaded by loadRemoteAliasTargets)
+  if (isVariableAlias(value)) {
+    const ref = context.allVariables.find((v) => v.id === value.id);
+    if (ref) {
+      return `{${variablePath(ref, context)}}`; // dot-path alias
+    }
+    return `{${value.id}}`;
+  }
+
+  // Color (Figma color in 0–1)
+  if (variable.resolvedType === 'COLOR' && isRGBA(value)) {
+    return formatColor(
+      { r: value.r, g: value.g, b: value.b, a: value.a ?? 1 },
+      context.colorFormat,
+      context.colorPrecision
+    );
+  }
+
+  // Primitive passthrough
+  return value;
+}
+
+function isRGBA(x: any): x is RGBA {
+  return x && typeof x === 'object' && 'r' in x && 'g' in x && 'b' in x;
+}
+
+// FLOAT/STRING types and units follow the variable's scopes (scopes.ts)
+function coerceTypeAndUnits(
+  variable: SourceVariable,
+  raw: any,
+  context: VariableContext
+): { type: DTCGToken['$type']; value: any } {
+  switch (variable.resolvedType) {
+    case 'FLOAT':
+    case 'STRING': {
+      const scopeType = scopeTypeFor(
+        variable.resolvedType,
+        variable.scopes,
+        context.scopeTypes
+      );
+      // Check if value is an alias (reference to another token)
+      if (typeof raw === 'string' && raw.startsWith('{') && raw.endsWith('}')) {
+        // For aliases, show the referenced value as-is (e.g., "{spacing.small}")
+        return { type: scopeDtcgType(scopeType), value: raw };
+      }
+      return coerceScopedValue(scopeType, raw, context.remBase);
+    }
+    case 'BOOLEAN':
+      return { type: 'boolean', value: Boolean(raw) };
+    case 'COLOR':
+      return { type: 'color', value: raw };
+    default:
+      return { type: 'string', value: raw };
+  }
+}
+
+function isScoped(variable: SourceVariable): boolean {
+  return (
+    variable.resolvedType === 'FLOAT' || variable.resolvedType === 'STRING'
+  );
+}
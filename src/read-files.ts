@@ -0,0 +1,27 @@
+// read-files.ts — UI-side helper turning picked files into ExportFile entries
+// (used by the import panel and the previous-export picker)
+
+import JSZip from 'jszip';
+import { ExportFile } from './types';
+
+// Uploaded .json files as-is; .zip files (e.g. a previous export) unpacked
+export async function readTokenFiles(
+  fileList: FileList
+): Promise<ExportFile[]> {
+  const files: ExportFile[] = [];
+  for (const file of Array.from(fileList)) {
+    if (file.name.endsWith('.zip')) {
+      const zip = await JSZip.loadAsync(file);
+      for (const entry of Object.values(zip.files)) {
+        if (entry.dir || !entry.name.endsWith('.json')) continue;
+        files.push({
+          filename: entry.name,
+          content: await entry.async('string'),
+        });
+      }
+    } else {
+      files.push({ filename: file.name, content: await file.text() });
+    }
+  }
+  return files;
+}
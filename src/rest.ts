@@ -0,0 +1,107 @@
+// rest.ts — VariableSource over the Figma REST API's
+// GET /v1/files/:key/variables/local response (used by cli.ts).
+//
+// The response carries the file's own variables plus the library variables
+// it references (remote: true), in the same shape the plugin API uses, so
+// the pipeline sees no difference.
+
+import { VariableSource } from './pipeline';
+import { SourceCollection, SourceVariable } from './types';
+
+type RestVariable = Partial<SourceVariable> & {
+  id: string;
+  name: string;
+  variableCollectionId: string;
+  resolvedType: VariableResolvedDataType;
+  valuesByMode: SourceVariable['valuesByMode'];
+  deletedButReferenced?: boolean;
+};
+
+type RestCollection = Partial<SourceCollection> & {
+  id: string;
+  name: string;
+  modes: SourceCollection['modes'];
+  defaultModeId: string;
+  deletedButReferenced?: boolean;
+};
+
+export type LocalVariablesResponse = {
+  status?: number;
+  error?: boolean;
+  message?: string;
+  meta: {
+    variables: Record<string, RestVariable>;
+    variableCollections: Record<string, RestCollection>;
+  };
+};
+
+export function parseLocalVariablesResponse(
+  json: string
+): LocalVariablesResponse {
+  const response = JSON.parse(json);
+  if (response?.error) {
+    throw new Error(
+      `Figma API error ${response.status ?? ''}: ${response.message ?? 'unknown'}`
+    );
+  }
+  if (
+    typeof response?.meta?.variables !== 'object' ||
+    typeof response?.meta?.variableCollections !== 'object'
+  ) {
+    throw new Error(
+      'Not a /v1/files/:key/variables/local response (meta.variables missing)'
+    );
+  }
+  return response;
+}
+
+export function restVariableSource(
+  response: LocalVariablesResponse
+): VariableSource {
+  const variables = Object.values(response.meta.variables).map(toVariable);
+  const collections = Object.values(response.meta.variableCollections).map(
+    toCollection
+  );
+  const isLocal = (item: { remote: boolean; deletedButReferenced?: boolean }) =>
+    !item.remote && !item.deletedButReferenced;
+
+  return {
+    collections: collections.filter(isLocal),
+    variables: variables.filter(isLocal),
+    getVariableById: async (id) => variables.find((v) => v.id === id) ?? null,
+    getCollectionById: async (id) =>
+      collections.find((c) => c.id === id) ?? null,
+  };
+}
+
+// Fields the REST API may leave out get the plugin API's defaults
+function toVariable(
+  variable: RestVariable
+): SourceVariable & { deletedButReferenced?: boolean } {
+  return {
+    id: variable.id,
+    name: variable.name,
+    description: variable.description ?? '',
+    remote: variable.remote ?? false,
+    variableCollectionId: variable.variableCollectionId,
+    resolvedType: variable.resolvedType,
+    valuesByMode: variable.valuesByMode,
+    scopes: variable.scopes ?? ['ALL_SCOPES'],
+    codeSyntax: variable.codeSyntax ?? {},
+    hiddenFromPublishing: variable.hiddenFromPublishing ?? false,
+    deletedButReferenced: variable.deletedButReferenced,
+  };
+}
+
+function toCollection(
+  collection: RestCollection
+): SourceCollection & { deletedButReferenced?: boolean } {
+  return {
+    id: collection.id,
+    name: collection.name,
+    modes: collection.modes,
+    defaultModeId: collection.defaultModeId,
+    remote: collection.remote ?? false,
+    deletedButReferenced: collection.deletedButReferenced,
+  };
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { resolveAliases } from './aliases';
+import { DTCGToken } from './dtcg';
+import { ResolvedCollection } from './formats/shared';
+import { coerceScopedValue } from './scopes';
+import { DEFAULT_EXPORT_OPTIONS, ExportIssue } from './types';
+
+describe('coerceScopedValue opacity', () => {
+  const opacity = (raw: any) => coerceScopedValue('opacity', raw, 16);
+
+  test('reads Figma 0–100 values as percentages', () => {
+    assert.deepEqual(opacity(0), { type: 'number', value: 0 });
+    assert.deepEqual(opacity(0.5), { type: 'number', value: 0.005 });
+    assert.deepEqual(opacity(1), { type: 'number', value: 0.01 });
+    assert.deepEqual(opacity(100), { type: 'number', value: 1 });
+  });
+
+  test('keeps values that are not numbers', () => {
+    assert.deepEqual(opacity('{opacity.dim}'), {
+      type: 'number',
+      value: '{opacity.dim}',
+    });
+  });
+});
+
+describe('resolveAliases opacity', () => {
+  const token = (value: any, scopes: string[]): DTCGToken => ({
+    $type: 'number',
+    $value: value,
+    $figma: {
+      variableId: '',
+      collectionId: 'c',
+      codeSyntax: {},
+      scopes,
+      hiddenFromPublishing: false,
+    },
+  });
+  const resolve = (tokens: Record<string, DTCGToken>) => {
+    const collection: ResolvedCollection = {
+      id: 'c',
+      name: 'Tokens',
+      slug: 'tokens',
+      baseMode: 'Value',
+      modes: [{ name: 'Value', tokens }],
+    };
+    const issues: ExportIssue[] = [];
+    const [resolved] = resolveAliases(
+      [collection],
+      [collection],
+      DEFAULT_EXPORT_OPTIONS,
+      issues
+    );
+    assert.deepEqual(issues, []);
+    return resolved.modes[0].tokens.alias as DTCGToken;
+  };
+
+  test('keeps an opacity target that is already 0–1', () => {
+    const alias = resolve({
+      dim: token(0.5, ['OPACITY']),
+      alias: token('{dim}', ['OPACITY']),
+    });
+    assert.equal(alias.$value, 0.5);
+  });
+
+  test('converts a plain number target from 0–100', () => {
+    const alias = resolve({
+      half: token(50, []),
+      alias: token('{half}', ['OPACITY']),
+    });
+    assert.equal(alias.$value, 0.5);
+  });
+});
@@ -0,0 +1,192 @@
+// scopes.ts — DTCG type and unit for FLOAT / STRING variables by Figma scope.
+//
+// A variable's scopes say where it may be applied in Figma (FONT_SIZE,
+// OPACITY, …), which is the best hint at what it means in code. Defaults
+// below can be overridden per scope in ExportOptions.scopeTypes.
+
+import { DTCGToken } from './dtcg';
+import { ExportOptions, ScopeType } from './types';
+
+// Scopes FLOAT / STRING variables can carry, in the order the UI lists them
+export const NUMERIC_SCOPES: VariableScope[] = [
+  'ALL_SCOPES',
+  'CORNER_RADIUS',
+  'WIDTH_HEIGHT',
+  'GAP',
+  'STROKE_FLOAT',
+  'EFFECT_FLOAT',
+  'OPACITY',
+  'FONT_SIZE',
+  'LINE_HEIGHT',
+  'LETTER_SPACING',
+  'PARAGRAPH_SPACING',
+  'PARAGRAPH_INDENT',
+  'FONT_WEIGHT',
+  'FONT_FAMILY',
+  'FONT_STYLE',
+  'TEXT_CONTENT',
+];
+
+export const DEFAULT_SCOPE_TYPES: Partial<Record<VariableScope, ScopeType>> = {
+  ALL_SCOPES: 'px',
+  CORNER_RADIUS: 'px',
+  WIDTH_HEIGHT: 'px',
+  GAP: 'px',
+  STROKE_FLOAT: 'px',
+  EFFECT_FLOAT: 'px',
+  OPACITY: 'opacity',
+  FONT_SIZE: 'rem',
+  LINE_HEIGHT: 'number',
+  LETTER_SPACING: 'px',
+  PARAGRAPH_SPACING: 'px',
+  PARAGRAPH_INDENT: 'px',
+  FONT_WEIGHT: 'fontWeight',
+  FONT_FAMILY: 'fontFamily',
+  FONT_STYLE: 'string',
+  TEXT_CONTENT: 'string',
+};
+
+// Which scope types make sense for each resolved type
+const FLOAT_TYPES: ScopeType[] = [
+  'px',
+  'rem',
+  'number',
+  'opacity',
+  'fontWeight',
+];
+const STRING_TYPES: ScopeType[] = ['string', 'fontFamily', 'fontWeight'];
+
+export function scopeTypesFor(scope: VariableScope): ScopeType[] {
+  switch (scope) {
+    case 'ALL_SCOPES':
+    case 'FONT_WEIGHT':
+      return Array.from(new Set([...FLOAT_TYPES, ...STRING_TYPES]));
+    case 'FONT_FAMILY':
+    case 'FONT_STYLE':
+    case 'TEXT_CONTENT':
+      return STRING_TYPES;
+    default:
+      return FLOAT_TYPES;
+  }
+}
+
+// First scope with a usable mapping wins; unscoped FLOATs are plain numbers
+export function scopeTypeFor(
+  resolvedType: VariableResolvedDataType,
+  scopes: ReadonlyArray<string>,
+  overrides: ExportOptions['scopeTypes']
+): ScopeType {
+  const usable = resolvedType === 'STRING' ? STRING_TYPES : FLOAT_TYPES;
+  for (const scope of scopes as VariableScope[]) {
+    const type = overrides[scope] ?? DEFAULT_SCOPE_TYPES[scope];
+    if (type && usable.includes(type)) return type;
+  }
+  return resolvedType === 'STRING' ? 'string' : scopes.length ? 'px' : 'number';
+}
+
+// Literal FLOAT / STRING value -> DTCG type and value
+export function coerceScopedValue(
+  type: ScopeType,
+  raw: any,
+  remBase: number
+): { type: DTCGToken['$type']; value: any } {
+  switch (type) {
+    case 'px':
+    case 'rem':
+      return { type: 'dimension', value: toUnit(raw, type, remBase) };
+    case 'opacity': {
+      // Figma stores OPACITY variables as 0–100, so 1 means 1 %
+      const n = parseFloat(String(raw));
+      return { type: 'number', value: Number.isNaN(n) ? raw : round4(n / 100) };
+    }
+    case 'fontWeight': {
+      const weight = fontWeightValue(raw);
+      return weight === undefined
+        ? { type: 'string', value: String(raw) }
+        : { type: 'fontWeight', value: weight };
+    }
+    case 'fontFamily':
+      return { type: 'fontFamily', value: String(raw) };
+    case 'string':
+      return { type: 'string', value: String(raw) };
+    default: {
+      const n = parseFloat(String(raw));
+      return { type: 'number', value: Number.isNaN(n) ? raw : n };
+    }
+  }
+}
+
+// DTCG type a scope type produces (aliases keep their reference as value)
+export function scopeDtcgType(type: ScopeType): DTCGToken['$type'] {
+  switch (type) {
+    case 'px':
+    case 'rem':
+      return 'dimension';
+    case 'number':
+    case 'opacity':
+      return 'number';
+    default:
+      return type;
+  }
+}
+
+// 16 / "16px" / "1rem" -> "16px" or "1rem"
+export function toUnit(raw: any, unit: 'px' | 'rem', remBase: number): string {
+  const px = toPixels(raw, remBase);
+  if (Number.isNaN(px)) return String(raw);
+  return unit === 'rem' ? `${round4(px / remBase)}rem` : `${round4(px)}px`;
+}
+
+// 16 / "16px" / "1rem" -> 16
+export function toPixels(raw: any, remBase: number): number {
+  const n = typeof raw === 'number' ? raw : parseFloat(String(raw));
+  return typeof raw === 'string' && /rem$/i.test(raw.trim()) ? n * remBase : n;
+}
+
+// DTCG number / dimension -> Figma FLOAT for a variable exported as `type`:
+// px, with opacity back on Figma's 0–100 scale (reverses coerceScopedValue)
+export function toFigmaFloat(
+  type: ScopeType,
+  raw: any,
+  remBase: number
+): number {
+  if (type === 'opacity') return round4(parseFloat(String(raw)) * 100);
+  return toPixels(raw, remBase);
+}
+
+// DTCG fontWeight aliases (https://tr.designtokens.org/format/#font-weight)
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900,
+  extrablack: 950,
+  ultrablack: 950,
+};
+
+// 700 / "700" / "Semi Bold" -> number; undefined when not a weight
+export function fontWeightValue(raw: any): number | undefined {
+  const n = Number(raw);
+  if (raw !== '' && Number.isFinite(n) && n >= 1 && n <= 1000) return n;
+  return FONT_WEIGHTS[
+    String(raw)
+      .toLowerCase()
+      .replace(/[\s_-]+/g, '')
+  ];
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
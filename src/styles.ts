@@ -0,0 +1,335 @@
+// styles.ts — local text, effect and grid styles as DTCG composite tokens.
+//
+//  - Text styles → `typography` (fontFamily, fontSize, fontWeight,
+//    letterSpacing, lineHeight)
+//  - Effect styles → `shadow` (drop and inner shadows; blurs have no DTCG type)
+//  - Grid styles → `grid`, which DTCG has no type for: one layer (or a list)
+//    of pattern, alignment, count, gutterSize, offset and sectionSize
+//  - Properties bound to a variable become {dot.path} references, the same
+//    alias format convertVariableValue writes. lineHeight is the exception:
+//    always a ratio of the font size, see below
+//
+// Written next to the collection files as text-styles / effect-styles /
+// grid-styles through naming.filenameTemplate (tokens.text-styles.json, …;
+// DTCG output only).
+
+import { formatColor } from './color';
+import { DTCGFile, TokenTree } from './dtcg';
+import { SCHEMA_URL, templateFilename } from './formats/json';
+import { toTokenPath } from './naming';
+import { coerceScopedValue, fontWeightValue, scopeTypeFor } from './scopes';
+import { ExportFile, ExportIssue, ExportOptions } from './types';
+
+// Composite types; these never become Figma variables (see import.ts)
+export const STYLE_TOKEN_TYPES: string[] = ['typography', 'shadow', 'grid'];
+
+// Property values are literals or "{dot.path}" references
+type Dimension = string | number; // "16px", "1rem", or a plain number
+
+type TypographyValue = {
+  fontFamily: string;
+  fontSize: Dimension;
+  fontWeight: number | string;
+  letterSpacing: Dimension;
+  lineHeight?: number;
+};
+
+type ShadowLayer = {
+  color: ReturnType<typeof formatColor>;
+  offsetX: Dimension;
+  offsetY: Dimension;
+  blur: Dimension;
+  spread: Dimension;
+  inset?: true;
+};
+
+type GridLayer =
+  | {
+      pattern: 'rows' | 'columns';
+      alignment: 'min' | 'max' | 'stretch' | 'center';
+      count: number | string; // "auto" fills the frame
+      gutterSize: Dimension;
+      offset?: Dimension;
+      sectionSize?: Dimension;
+    }
+  | { pattern: 'grid'; sectionSize: Dimension };
+
+type StyleValue =
+  | { $type: 'typography'; $value: TypographyValue }
+  | { $type: 'shadow'; $value: ShadowLayer | ShadowLayer[] }
+  | { $type: 'grid'; $value: GridLayer | GridLayer[] };
+
+type StyleExtensions = {
+  styleId: string;
+  lineHeight?: string; // bound line height variable, see below
+};
+
+type StyleToken = StyleValue & {
+  $description?: string;
+  $extensions: { 'com.figma': StyleExtensions };
+};
+type StyleGroup = TokenTree<StyleToken>;
+
+// Variable id -> "{dot.path}", undefined when the variable cannot be loaded
+export type StyleAliasResolver = (
+  variableId: string
+) => Promise<string | undefined>;
+
+export async function buildStyleFiles(
+  aliasFor: StyleAliasResolver,
+  options: ExportOptions,
+  issues: ExportIssue[]
+): Promise<ExportFile[]> {
+  const textStyles = await figma.getLocalTextStylesAsync();
+  const effectStyles = await figma.getLocalEffectStylesAsync();
+  const gridStyles = await figma.getLocalGridStylesAsync();
+
+  // Bound property -> reference, else the literal (with a warning when the
+  // variable is gone)
+  const bound = async <T>(
+    style: BaseStyle,
+    alias: VariableAlias | undefined,
+    literal: T
+  ): Promise<T | string> => {
+    if (!alias) return literal;
+    const reference = await aliasFor(alias.id);
+    if (reference) return reference;
+    issues.push({
+      severity: 'warning',
+      message: `Style "${style.name}" is bound to ${alias.id}, which could not be loaded; exported its value instead`,
+      path: stylePath(style, options).join('.'),
+    });
+    return literal;
+  };
+
+  const typography: StyleGroup = {};
+  for (const style of textStyles) {
+    const vars = style.boundVariables ?? {};
+    const value: TypographyValue = {
+      fontFamily: await bound(style, vars.fontFamily, style.fontName.family),
+      fontSize: await bound(
+        style,
+        vars.fontSize,
+        dimension('FONT_SIZE', style.fontSize, options)
+      ),
+      fontWeight: await bound(
+        style,
+        vars.fontWeight,
+        fontWeightValue(style.fontName.style.replace(/italic/i, '').trim()) ??
+          400
+      ),
+      letterSpacing: await bound(
+        style,
+        vars.letterSpacing,
+        style.letterSpacing.unit === 'PERCENT'
+          ? `${round4(style.letterSpacing.value / 100)}em`
+          : dimension('LETTER_SPACING', style.letterSpacing.value, options)
+      ),
+    };
+    // A ratio of the font size; AUTO has no DTCG equivalent. Line height
+    // variables hold px, so a bound one cannot be referenced without mixing
+    // units: the style's resolved value is written and the variable kept in
+    // $extensions["com.figma"].lineHeight
+    const { lineHeight } = style;
+    if (lineHeight.unit !== 'AUTO') {
+      value.lineHeight =
+        lineHeight.unit === 'PERCENT'
+          ? round4(lineHeight.value / 100)
+          : round4(lineHeight.value / style.fontSize);
+    }
+    const lineHeightAlias = vars.lineHeight
+      ? await bound(style, vars.lineHeight, undefined)
+      : undefined;
+    setStyleToken(
+      typography,
+      stylePath(style, options),
+      styleToken(
+        style,
+        { $type: 'typography', $value: value },
+        lineHeightAlias ? { lineHeight: lineHeightAlias } : {}
+      )
+    );
+  }
+
+  const shadow: StyleGroup = {};
+  for (const style of effectStyles) {
+    const shadows = style.effects.filter(
+      (e): e is DropShadowEffect | InnerShadowEffect =>
+        (e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW') && e.visible
+    );
+    if (shadows.length === 0) continue;
+    const layers: ShadowLayer[] = [];
+    for (const effect of shadows) {
+      const vars = effect.boundVariables ?? {};
+      const layer: ShadowLayer = {
+        color: await bound(
+          style,
+          vars.color,
+          formatColor(effect.color, options.colorFormat, options.colorPrecision)
+        ),
+        offsetX: await bound(
+          style,
+          vars.offsetX,
+          dimension('EFFECT_FLOAT', effect.offset.x, options)
+        ),
+        offsetY: await bound(
+          style,
+          vars.offsetY,
+          dimension('EFFECT_FLOAT', effect.offset.y, options)
+        ),
+        blur: await bound(
+          style,
+          vars.radius,
+          dimension('EFFECT_FLOAT', effect.radius, options)
+        ),
+        spread: await bound(
+          style,
+          vars.spread,
+          dimension('EFFECT_FLOAT', effect.spread ?? 0, options)
+        ),
+      };
+      if (effect.type === 'INNER_SHADOW') layer.inset = true;
+      layers.push(layer);
+    }
+    setStyleToken(
+      shadow,
+      stylePath(style, options),
+      styleToken(style, {
+        $type: 'shadow',
+        $value: layers.length === 1 ? layers[0] : layers,
+      })
+    );
+  }
+
+  const grid: StyleGroup = {};
+  for (const style of gridStyles) {
+    const grids = style.layoutGrids.filter((g) => g.visible !== false);
+    if (grids.length === 0) continue;
+    const layers: GridLayer[] = [];
+    for (const layout of grids) {
+      if (layout.pattern === 'GRID') {
+        const vars = layout.boundVariables ?? {};
+        layers.push({
+          pattern: 'grid',
+          sectionSize: await bound(
+            style,
+            vars.sectionSize,
+            dimension('WIDTH_HEIGHT', layout.sectionSize, options)
+          ),
+        });
+        continue;
+      }
+      const vars = layout.boundVariables ?? {};
+      const layer: GridLayer = {
+        pattern: layout.pattern === 'ROWS' ? 'rows' : 'columns',
+        alignment: toLowerCase(layout.alignment),
+        count: await bound(
+          style,
+          vars.count,
+          Number.isFinite(layout.count) ? layout.count : 'auto'
+        ),
+        gutterSize: await bound(
+          style,
+          vars.gutterSize,
+          dimension('GAP', layout.gutterSize, options)
+        ),
+      };
+      // Set only for the alignments that use them
+      if (layout.offset !== undefined) {
+        layer.offset = await bound(
+          style,
+          vars.offset,
+          dimension('WIDTH_HEIGHT', layout.offset, options)
+        );
+      }
+      if (layout.sectionSize !== undefined) {
+        layer.sectionSize = await bound(
+          style,
+          vars.sectionSize,
+          dimension('WIDTH_HEIGHT', layout.sectionSize, options)
+        );
+      }
+      layers.push(layer);
+    }
+    setStyleToken(
+      grid,
+      stylePath(style, options),
+      styleToken(style, {
+        $type: 'grid',
+        $value: layers.length === 1 ? layers[0] : layers,
+      })
+    );
+  }
+
+  return [
+    styleFile('text-styles', 'Text', typography, options),
+    styleFile('effect-styles', 'Effects', shadow, options),
+    styleFile('grid-styles', 'Grid', grid, options),
+  ].filter((file): file is ExportFile => file !== undefined);
+}
+
+function styleToken(
+  style: BaseStyle,
+  value: StyleValue,
+  figmaExtensions: Omit<StyleExtensions, 'styleId'> = {}
+): StyleToken {
+  return {
+    ...value,
+    ...(style.description ? { $description: style.description } : {}),
+    $extensions: { 'com.figma': { styleId: style.id, ...figmaExtensions } },
+  };
+}
+
+// "Heading/H1" -> ["heading", "h1"], named like variable paths
+function stylePath(style: BaseStyle, options: ExportOptions): string[] {
+  return toTokenPath(style.name, options.naming);
+}
+
+function setStyleToken(root: StyleGroup, path: string[], token: StyleToken) {
+  let cursor = root;
+  for (const seg of path.slice(0, -1)) {
+    if (!cursor[seg] || '$type' in cursor[seg]) cursor[seg] = {};
+    cursor = cursor[seg] as StyleGroup;
+  }
+  cursor[path[path.length - 1]] = token;
+}
+
+// Style dimensions follow the same scope mapping as variables (rem font sizes…)
+function dimension(
+  scope: VariableScope,
+  px: number,
+  options: ExportOptions
+): Dimension {
+  const type = scopeTypeFor('FLOAT', [scope], options.scopeTypes);
+  return coerceScopedValue(type, px, options.remBase).value;
+}
+
+function styleFile(
+  slug: string,
+  label: string,
+  tokens: StyleGroup,
+  options: ExportOptions
+): ExportFile | undefined {
+  if (Object.keys(tokens).length === 0) return undefined;
+  const fileContent: DTCGFile<StyleToken> = {
+    $schema: SCHEMA_URL,
+    $metadata: {
+      name: `Figma Styles — ${label}`,
+      description: `Local ${label.toLowerCase()} styles as DTCG tokens`,
+    },
+    tokens,
+  };
+  return {
+    filename: templateFilename(slug, undefined, options),
+    content: JSON.stringify(fileContent, null, 2),
+  };
+}
+
+// "STRETCH" -> "stretch", typed
+function toLowerCase<T extends string>(value: T): Lowercase<T> {
+  return value.toLowerCase() as Lowercase<T>;
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildJsonFiles } from './formats/json';
+import { ResolvedCollection } from './formats/shared';
+import { buildThemeFiles } from './themes';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions } from './types';
+
+const collection = (name: string, modes: string[]): ResolvedCollection => ({
+  id: name,
+  name,
+  slug: name.toLowerCase(),
+  baseMode: modes[0],
+  modes: modes.map((mode) => ({
+    name: mode,
+    tokens: { gap: { $type: 'dimension', $value: `${mode.length}px` } },
+  })),
+});
+
+const build = (collections: ResolvedCollection[], options: ExportOptions) => {
+  const taken = buildJsonFiles(collections, options).map((f) => f.filename);
+  const files = buildThemeFiles(collections, [], options, taken);
+  const manifest = JSON.parse(files[0].content);
+  return { taken, files, manifest };
+};
+
+test('lists the base mode file under an overrides-only mode file', () => {
+  const { manifest } = build([collection('Theme', ['Light', 'Dark'])], {
+    ...DEFAULT_EXPORT_OPTIONS,
+    overridesOnly: true,
+  });
+  assert.deepEqual(manifest[0].files, ['tokens.theme.light.json']);
+  assert.deepEqual(manifest[1].files, [
+    'tokens.theme.light.json',
+    'tokens.theme.dark.json',
+  ]);
+});
+
+test('names merged themes by the template without overwriting files', () => {
+  const { taken, files, manifest } = build(
+    [collection('Light', ['Value']), collection('Theme', ['Light', 'Dark'])],
+    {
+      ...DEFAULT_EXPORT_OPTIONS,
+      mergeThemes: true,
+      naming: {
+        ...DEFAULT_EXPORT_OPTIONS.naming,
+        filenameTemplate: 'json/{collection}/{mode}.json',
+      },
+    }
+  );
+  assert.ok(taken.includes('json/light.json'));
+  assert.deepEqual(
+    manifest.map((theme: { merged: string }) => theme.merged),
+    ['json/light.theme.json', 'json/dark.json']
+  );
+  assert.deepEqual(
+    files.slice(1).map((f) => f.filename),
+    ['json/light.theme.json', 'json/dark.json']
+  );
+});
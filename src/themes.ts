@@ -0,0 +1,197 @@
+// themes.ts — theme matrix across collections.
+//
+// Every combination of one mode per multi-mode collection is a theme
+// ("Brand A / Dark / Compact"). The $themes.json manifest lists, per theme,
+// the mode picked in each collection and the DTCG JSON files that make it up
+// (with overridesOnly, the base mode file before the one holding the
+// differences); single-mode collections belong to every theme. Optionally
+// each theme is also written as one merged file with every alias resolved,
+// named by the filename template with the theme id as collection
+// (tokens.brand-a.dark.compact.json) and moved aside when an exported file
+// already has that name.
+
+import { resolveAliases } from './aliases';
+import { DTCGGroup, DTCGFile, isLeaf, toFileTokens } from './dtcg';
+import { SCHEMA_URL, jsonFilename, templateFilename } from './formats/json';
+import {
+  ResolvedCollection,
+  ResolvedMode,
+  getBaseMode,
+} from './formats/shared';
+import { toSlug } from './naming';
+import { ExportFile, ExportOptions } from './types';
+
+// What the matrix needs to know about a collection (UI summaries and
+// resolved collections both fit)
+export type ThemeSource = { name: string; modes: string[] };
+
+export type ThemeCombination = {
+  id: string; // "brand-a.dark.compact"
+  name: string; // "Brand A / Dark / Compact"
+  modes: Record<string, string>; // collection name -> mode name
+};
+
+export function themeCombinations(
+  collections: ThemeSource[]
+): ThemeCombination[] {
+  let combinations: ThemeCombination[] = [{ id: '', name: '', modes: {} }];
+  for (const collection of collections) {
+    if (collection.modes.length <= 1) continue;
+    combinations = combinations.flatMap((combination) =>
+      collection.modes.map((mode) => ({
+        id: [combination.id, toSlug(mode)].filter(Boolean).join('.'),
+        name: [combination.name, mode].filter(Boolean).join(' / '),
+        modes: { ...combination.modes, [collection.name]: mode },
+      }))
+    );
+  }
+  return combinations.filter((c) => c.id !== '');
+}
+
+export function buildThemeFiles(
+  collections: ResolvedCollection[],
+  lookup: ResolvedCollection[],
+  options: ExportOptions,
+  taken: string[] = [] // filenames already in the export
+): ExportFile[] {
+  const themes = themeCombinations(
+    collections.map((c) => ({
+      name: c.name,
+      modes: c.modes.map((m) => m.name),
+    }))
+  ).filter((theme) => !options.skippedThemes.includes(theme.id));
+  if (themes.length === 0) return [];
+
+  const files: ExportFile[] = [];
+  const filenames = new Set(taken);
+  const manifest = themes.map((theme) => {
+    const entry: Record<string, any> = {
+      id: theme.id,
+      name: theme.name,
+      modes: theme.modes,
+      files: collections.flatMap((c) =>
+        themeFiles(
+          c,
+          c.modes.find((m) => m.name === theme.modes[c.name]),
+          options
+        )
+      ),
+    };
+    if (options.mergeThemes) {
+      const picked = pickModes(collections, theme);
+      const filename = mergedFilename(theme, options, filenames);
+      const merged = mergedFile(theme, picked, lookup, options, filename);
+      entry.merged = merged.filename;
+      files.push(merged);
+    }
+    return entry;
+  });
+
+  files.unshift({
+    filename: '$themes.json',
+    content: JSON.stringify(manifest, null, 2),
+  });
+  return files;
+}
+
+// JSON files a collection adds to a theme: a mode file that only holds
+// overrides needs the base mode file under it
+function themeFiles(
+  collection: ResolvedCollection,
+  mode: ResolvedMode | undefined,
+  options: ExportOptions
+): string[] {
+  const base = getBaseMode(collection);
+  const overrides =
+    options.overridesOnly &&
+    options.jsonLayout === 'per-mode' &&
+    collection.modes.length > 1 &&
+    base &&
+    mode &&
+    mode !== base;
+  return overrides
+    ? [
+        jsonFilename(collection, base, options),
+        jsonFilename(collection, mode, options),
+      ]
+    : [jsonFilename(collection, mode, options)];
+}
+
+// "tokens.{collection}.{mode}.json" -> "tokens.brand-a.dark.json"; when that
+// is taken, "tokens.brand-a.dark.theme.json", "….theme2.json", …
+function mergedFilename(
+  theme: ThemeCombination,
+  options: ExportOptions,
+  taken: Set<string>
+): string {
+  let filename = templateFilename(theme.id, undefined, options);
+  for (let n = 1; taken.has(filename); n++) {
+    const id = `${theme.id}.theme${n > 1 ? n : ''}`;
+    filename = templateFilename(id, undefined, options);
+  }
+  taken.add(filename);
+  return filename;
+}
+
+// Each collection narrowed to the theme's mode (single-mode ones as they are)
+function pickModes(
+  collections: ResolvedCollection[],
+  theme: ThemeCombination
+): ResolvedCollection[] {
+  return collections.map((collection) => {
+    const modeName = theme.modes[collection.name];
+    const mode =
+      collection.modes.find((m) => m.name === modeName) ?? collection.modes[0];
+    return mode
+      ? { ...collection, baseMode: mode.name, modes: [mode] }
+      : collection;
+  });
+}
+
+function mergedFile(
+  theme: ThemeCombination,
+  picked: ResolvedCollection[],
+  lookup: ResolvedCollection[],
+  options: ExportOptions,
+  filename: string
+): ExportFile {
+  // Aliases into collections outside the export still resolve via lookup;
+  // problems are already reported by validation
+  const resolved = resolveAliases(
+    picked,
+    [...picked, ...lookup.filter((l) => !picked.some((p) => p.id === l.id))],
+    { ...options, keepAliasReferences: false },
+    []
+  );
+  const tokens = resolved.reduce<DTCGGroup>(
+    (tree, collection) => mergeTrees(tree, collection.modes[0]?.tokens ?? {}),
+    {}
+  );
+  const fileContent: DTCGFile = {
+    $schema: SCHEMA_URL,
+    $metadata: {
+      name: `Figma Themes — ${theme.name}`,
+      description: `Resolved tokens for ${Object.entries(theme.modes)
+        .map(([collection, mode]) => `${collection}: ${mode}`)
+        .join(', ')}`,
+    },
+    tokens: toFileTokens(tokens),
+  };
+  return {
+    filename,
+    content: JSON.stringify(fileContent, null, 2),
+  };
+}
+
+// Later collections win on identical paths
+function mergeTrees(target: DTCGGroup, source: DTCGGroup): DTCGGroup {
+  const out: DTCGGroup = { ...target };
+  for (const [key, node] of Object.entries(source)) {
+    const existing = out[key];
+    out[key] =
+      !isLeaf(node) && existing && !isLeaf(existing)
+        ? mergeTrees(existing as DTCGGroup, node as DTCGGroup)
+        : node;
+  }
+  return out;
+}
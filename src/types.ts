@@ -5,10 +5,41 @@ export interface InsertCodeHandler extends EventHandler {
   handler: (code: string) => void;
 }
 
+// The parts of a variable / collection the export pipeline reads. Plugin API
+// objects satisfy these as they are; rest.ts maps the REST API's JSON onto them
+export type SourceVariable = Pick<
+  Variable,
+  | 'id'
+  | 'name'
+  | 'description'
+  | 'remote'
+  | 'variableCollectionId'
+  | 'resolvedType'
+  | 'valuesByMode'
+  | 'scopes'
+  | 'codeSyntax'
+  | 'hiddenFromPublishing'
+>;
+
+export type SourceCollection = Pick<
+  VariableCollection,
+  'id' | 'name' | 'modes' | 'defaultModeId' | 'remote'
+>;
+
 export type VariableCollectionSummary = {
   id: string;
   name: string;
   modeCount: number;
+  modes: string[]; // mode names, for the theme matrix
+  defaultMode: string; // base mode unless ExportOptions.baseModes says otherwise
+  variables: VariableSummary[]; // for the live filter count
+};
+
+export type VariableSummary = {
+  name: string;
+  resolvedType: VariableResolvedDataType;
+  scopes: VariableScope[];
+  hiddenFromPublishing: boolean;
 };
 
 export interface LoadCollectionsHandler extends EventHandler {
@@ -23,7 +54,60 @@ export interface SetCollectionsHandler extends EventHandler {
 
 export interface ExportCollectionsHandler extends EventHandler {
   name: 'EXPORT_COLLECTIONS';
-  handler: (selectedCollections: string[]) => void;
+  handler: (
+    selectedCollections: string[],
+    options: ExportOptions,
+    previousExport?: Array<ExportFile>
+  ) => void;
+}
+
+export interface PreviewExportHandler extends EventHandler {
+  name: 'PREVIEW_EXPORT';
+  handler: (
+    selectedCollections: string[],
+    options: ExportOptions,
+    previousExport?: Array<ExportFile>
+  ) => void;
+}
+
+export interface PreviewFilesHandler extends EventHandler {
+  name: 'PREVIEW_FILES';
+  handler: (payload: ZipPayload) => void;
+}
+
+export interface PushExportHandler extends EventHandler {
+  name: 'PUSH_EXPORT';
+  handler: (
+    selectedCollections: string[],
+    options: ExportOptions,
+    git: GitSettings,
+    previousExport?: Array<ExportFile>
+  ) => void;
+}
+
+export interface PushFilesHandler extends EventHandler {
+  name: 'PUSH_FILES';
+  handler: (payload: ZipPayload) => void;
+}
+
+export interface SendExportHandler extends EventHandler {
+  name: 'SEND_EXPORT';
+  handler: (
+    selectedCollections: string[],
+    options: ExportOptions,
+    webhook: WebhookSettings,
+    previousExport?: Array<ExportFile>
+  ) => void;
+}
+
+export interface SendFilesHandler extends EventHandler {
+  name: 'SEND_FILES';
+  handler: (payload: ZipPayload, metadata: ExportMetadata) => void;
+}
+
+export interface SetBoundTokensHandler extends EventHandler {
+  name: 'SET_BOUND_TOKENS';
+  handler: (tokens: Array<BoundToken>) => void;
 }
 
 export interface DownloadFilesHandler extends EventHandler {
@@ -31,6 +115,21 @@ export interface DownloadFilesHandler extends EventHandler {
   handler: (files: Array<{ filename: string; content: string }>) => void;
 }
 
+export interface PreviewImportHandler extends EventHandler {
+  name: 'PREVIEW_IMPORT';
+  handler: (files: Array<ExportFile>, options: ImportOptions) => void;
+}
+
+export interface ApplyImportHandler extends EventHandler {
+  name: 'APPLY_IMPORT';
+  handler: (files: Array<ExportFile>, options: ImportOptions) => void;
+}
+
+export interface ImportResultHandler extends EventHandler {
+  name: 'IMPORT_RESULT';
+  handler: (result: ImportResult) => void;
+}
+
 // DTCG Format Types
 export interface DTCGToken {
   $type: string;
@@ -52,7 +151,268 @@ export interface DTCGCollection {
   $tokens: DTCGGroup;
 }
 
+export type ExportFile = { filename: string; content: string };
+
+export type ExportIssue = {
+  severity: 'error' | 'warning';
+  message: string;
+  path?: string; // token dot path the issue is about
+};
+
+// One difference between a previous export and the current one
+export type TokenChange = {
+  kind: 'added' | 'removed' | 'renamed' | 'changed';
+  collection: string;
+  mode: string;
+  path: string;
+  previousPath?: string; // renamed
+  before?: any;
+  after?: any;
+};
+
 export type ZipPayload = {
   zipName: string; // e.g. "tokens-1699999999999.zip"
-  files: Array<{ filename: string; content: string }>;
+  files: Array<ExportFile>;
+  issues?: Array<ExportIssue>;
+  changes?: Array<TokenChange>; // when a previous export was supplied
+  blocked?: boolean; // validation errors stopped the export (no files)
+  error?: string; // the export itself failed (no files)
 };
+
+// Export options
+export type OutputFormat =
+  | 'dtcg'
+  | 'css'
+  | 'scss'
+  | 'less'
+  | 'typescript'
+  | 'swift'
+  | 'android-xml'
+  | 'compose'
+  | 'tailwind';
+
+// How non-base modes are selected in CSS output:
+//  - 'data-attribute': [data-theme="dark"] { ... }
+//  - 'media-query':    @media (prefers-color-scheme: dark) for light/dark modes,
+//                      [data-theme] for any other mode
+export type CssThemeSelector = 'data-attribute' | 'media-query';
+
+// How aliases are written:
+//  - 'reference': {dot.path} / var(--…) / $variable, as Figma models them
+//  - 'resolve':   alias chains followed per mode down to literal values
+export type AliasOutput = 'reference' | 'resolve';
+
+// How a FLOAT / STRING variable with a given Figma scope is exported:
+// px / rem dimensions, plain numbers, opacity (0–100 -> 0–1), or DTCG
+// fontWeight / fontFamily / string
+export type ScopeType =
+  | 'px'
+  | 'rem'
+  | 'number'
+  | 'opacity'
+  | 'fontWeight'
+  | 'fontFamily'
+  | 'string';
+
+// 'hex': #rrggbb, or rgba() when translucent; 'dtcg-object': the DTCG 2025
+// { colorSpace, components, alpha, hex } value
+export type ColorFormat = 'hex' | 'hex8' | 'hsl' | 'oklch' | 'dtcg-object';
+
+// DTCG JSON: one file per mode, or one per collection with every mode (and
+// the variable's Figma metadata) in $extensions["com.figma"]
+export type JsonLayout = 'per-mode' | 'per-collection';
+
+// Variables exported from the selected collections (filter.ts)
+export type VariableFilter = {
+  patterns: string[]; // globs over variable names, "!" excludes
+  excludeHidden: boolean; // skip hiddenFromPublishing variables
+  types: VariableResolvedDataType[]; // empty: every type
+  scope: VariableScope | 'ANY';
+};
+
+// Case of token path segments; 'lower' keeps the original style
+// ("Bg Surface" -> "bg.surface", punctuation -> "_")
+export type PathCase = 'lower' | 'kebab' | 'camel' | 'snake' | 'preserve';
+
+export type NamingOptions = {
+  pathCase: PathCase;
+  prefix: string; // prepended to every path, e.g. "ds"
+  stripSegments: number; // leading group segments dropped from Figma names
+  // DTCG JSON filenames, {collection} and {mode} are slugs
+  filenameTemplate: string;
+};
+
+// Which variables of the selected collections are exported: all of them, or
+// only those bound to nodes in the selection / current page / whole document
+export type UsageScope = 'all' | 'selection' | 'page' | 'document';
+
+export type ExportOptions = {
+  formats: OutputFormat[];
+  usage: UsageScope; // alias targets of used variables are always included
+  cssThemeSelector: CssThemeSelector;
+  aliases: AliasOutput;
+  // With 'resolve': keep the original reference in $extensions["com.figma"].alias
+  keepAliasReferences: boolean;
+  // Prepended to paths of library variables from other files, e.g. "core"
+  // -> {core.color.blue.500}; empty keeps their plain path
+  remoteAliasPrefix: string;
+  // Produce no files while validation reports errors
+  blockOnErrors: boolean;
+  // Overrides of DEFAULT_SCOPE_TYPES (scopes.ts)
+  scopeTypes: Partial<Record<VariableScope, ScopeType>>;
+  remBase: number; // px per rem
+  colorFormat: ColorFormat;
+  colorPrecision: number; // decimals for alpha and hsl / oklch / object components
+  // Text / effect / grid styles as typography / shadow / grid tokens (DTCG
+  // output)
+  includeStyles: boolean;
+  // $themes.json manifest of mode combinations across collections (themes.ts)
+  themeManifest: boolean;
+  mergeThemes: boolean; // plus one resolved file per combination
+  skippedThemes: string[]; // combination ids, e.g. "brand-a.dark.compact"
+  jsonLayout: JsonLayout;
+  filter: VariableFilter;
+  naming: NamingOptions;
+  // Collection id -> base mode name; unset: the collection's default mode
+  baseModes: Record<string, string>;
+  // DTCG per-mode files: non-base modes only hold tokens that differ
+  overridesOnly: boolean;
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  formats: ['dtcg'],
+  usage: 'all',
+  cssThemeSelector: 'data-attribute',
+  aliases: 'reference',
+  keepAliasReferences: true,
+  remoteAliasPrefix: '',
+  blockOnErrors: false,
+  scopeTypes: {},
+  remBase: 16,
+  colorFormat: 'hex',
+  colorPrecision: 2,
+  includeStyles: true,
+  themeManifest: false,
+  mergeThemes: false,
+  skippedThemes: [],
+  jsonLayout: 'per-mode',
+  filter: { patterns: [], excludeHidden: false, types: [], scope: 'ANY' },
+  naming: {
+    pathCase: 'lower',
+    prefix: '',
+    stripSegments: 0,
+    filenameTemplate: 'tokens.{collection}.{mode}.json',
+  },
+  baseModes: {},
+  overridesOnly: false,
+};
+
+// Import (DTCG JSON → Figma variables)
+export type ImportOptions = {
+  deleteMissing: boolean; // remove variables the import no longer contains
+  // How the files were exported, for files without them in $metadata
+  naming: NamingOptions;
+  remBase: number;
+  scopeTypes: ExportOptions['scopeTypes'];
+};
+
+export type ImportChange = {
+  action: 'create' | 'update' | 'delete' | 'skip';
+  kind: 'collection' | 'mode' | 'variable';
+  collection: string;
+  name: string;
+  detail?: string;
+};
+
+export type ImportResult = {
+  applied: boolean; // false for a dry-run preview
+  changes: Array<ImportChange>;
+  error?: string;
+};
+
+// Pull requests (git-push.ts) — the UI talks to the host, main only builds files
+export type GitProvider = 'github' | 'gitlab';
+
+export type GitSettings = {
+  provider: GitProvider;
+  // REST API root; a self-hosted instance or a local mock server must also be
+  // listed in networkAccess.allowedDomains (package.json)
+  baseUrl: string;
+  repository: string; // "owner/name" (GitLab: "group/subgroup/project")
+  baseBranch: string; // empty: the repository's default branch
+  path: string; // directory the files are written to, e.g. "tokens"
+  token: string; // personal access token with repo / api scope
+};
+
+export const DEFAULT_API_URLS: Record<GitProvider, string> = {
+  github: 'https://api.github.com',
+  gitlab: 'https://gitlab.com/api/v4',
+};
+
+export const DEFAULT_GIT_SETTINGS: GitSettings = {
+  provider: 'github',
+  baseUrl: DEFAULT_API_URLS.github,
+  repository: '',
+  baseBranch: '',
+  path: 'tokens',
+  token: '',
+};
+
+export type PushResult = {
+  url: string; // pull / merge request
+  branch: string;
+};
+
+// "Send to endpoint" (webhook.ts) — POSTs the export as JSON from the UI
+export type WebhookSettings = {
+  url: string; // must be listed in networkAccess.allowedDomains
+  headers: string; // one "Name: value" per line, e.g. an Authorization header
+  retries: number; // extra attempts after a network error or a 5xx / 429
+  dryRun: boolean; // build and show the request without sending it
+};
+
+export const DEFAULT_WEBHOOK_SETTINGS: WebhookSettings = {
+  url: '',
+  headers: '',
+  retries: 2,
+  dryRun: false,
+};
+
+// Filled in by main, where the figma global is available
+export type ExportMetadata = {
+  fileKey: string | null; // only exposed to private plugins
+  fileName: string;
+  collectionIds: string[];
+  user: { id: string | null; name: string } | null;
+  timestamp: string; // ISO 8601
+};
+
+export type WebhookResult = {
+  dryRun: boolean;
+  status?: number; // HTTP status of the last attempt
+  statusText?: string;
+  attempts: number;
+  body: string; // response body, or the request body for a dry run
+};
+
+// Dev Mode inspect panel (inspect.ts): a variable bound to the selected layer
+export type BoundToken = {
+  nodeName: string;
+  field: string; // e.g. "fills", "itemSpacing", "fontSize"
+  group: BoundTokenGroup;
+  variableId: string;
+  name: string; // Figma variable name
+  collection: string;
+  path: string; // exported token path, e.g. "color.bg.surface"
+  snippets: { css: string; swift: string; compose: string };
+};
+
+export type BoundTokenGroup =
+  | 'Fill'
+  | 'Stroke'
+  | 'Spacing'
+  | 'Radius'
+  | 'Size'
+  | 'Typography'
+  | 'Effect'
+  | 'Other';
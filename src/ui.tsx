@@ -1,7 +1,12 @@
-import { h } from 'preact';
+import { h, Fragment } from 'preact';
 import { useState, useEffect } from 'preact/hooks';
 import './react-bridge'; // Must be first to set up React bridge
-import { render } from '@create-figma-plugin/ui';
+import {
+  Dropdown,
+  DropdownOption,
+  render,
+  SegmentedControl,
+} from '@create-figma-plugin/ui';
 import { emit, on } from '@create-figma-plugin/utilities';
 import styles from './styles.css';
 // Import object-ui styles
@@ -16,17 +21,88 @@ import {
   IconButton,
   Group,
 } from '@object-ui/components';
-import { VariableCollectionSummary, DownloadFilesHandler } from './types';
+import {
+  VariableCollectionSummary,
+  DownloadFilesHandler,
+  ExportFile,
+  ExportIssue,
+  ExportOptions,
+  BoundToken,
+  ExportMetadata,
+  GitSettings,
+  TokenChange,
+  UsageScope,
+  WebhookSettings,
+} from './types';
 
-import { AiFillBulb, AiFillPlayCircle } from 'react-icons/ai';
+import { AiFillEye, AiFillPlayCircle } from 'react-icons/ai';
 import FaultyTerminal from './components/FaultyTerminal';
+import ExportSettings from './components/ExportSettings';
+import BaseModeSettings from './components/BaseModeSettings';
+import ThemeSettings from './components/ThemeSettings';
+import VariableFilterSettings from './components/VariableFilterSettings';
+import IssueList from './components/IssueList';
+import ImportPanel from './components/ImportPanel';
+import ChangeSummary from './components/ChangeSummary';
+import FilePreview from './components/FilePreview';
+import InspectPanel from './components/InspectPanel';
+import PullRequestSettings, {
+  PushStatus,
+} from './components/PullRequestSettings';
+import { openPullRequest } from './git-push';
+import EndpointSettings, { SendStatus } from './components/EndpointSettings';
+import { sendToEndpoint } from './webhook';
+import { readTokenFiles } from './read-files';
 import JSZip from 'jszip';
 import { ZipPayload } from './types';
 
-function Plugin({ collections }: { collections: VariableCollectionSummary[] }) {
+const USAGE_OPTIONS: Array<DropdownOption> = [
+  { value: 'all', text: 'All variables' },
+  { value: 'selection', text: 'Only variables used in the selection' },
+  { value: 'page', text: 'Only variables used on this page' },
+  { value: 'document', text: 'Only variables used in the document' },
+];
+
+// File extension -> MIME type for single-file downloads (else plain text)
+const MIME_TYPES: Record<string, string> = {
+  json: 'application/json',
+  css: 'text/css',
+  js: 'text/javascript',
+  xml: 'application/xml',
+  md: 'text/markdown',
+};
+
+function Plugin({
+  collections: initialCollections,
+  options: initialOptions,
+  git: initialGit,
+  webhook: initialWebhook,
+}: {
+  collections: VariableCollectionSummary[];
+  options: ExportOptions; // of the last export
+  git: GitSettings;
+  webhook: WebhookSettings;
+}) {
+  const [view, setView] = useState<'export' | 'import'>('export');
+  const [collections, setCollections] = useState(initialCollections);
   const [selectedCollections, setSelectedCollections] = useState<Set<string>>(
     new Set(collections.map((c) => c.id))
   );
+  const [exportOptions, setExportOptions] =
+    useState<ExportOptions>(initialOptions);
+  const [issues, setIssues] = useState<ExportIssue[]>([]);
+  const [previousExport, setPreviousExport] = useState<ExportFile[]>([]);
+  const [changes, setChanges] = useState<TokenChange[] | undefined>();
+  const [previewFiles, setPreviewFiles] = useState<ExportFile[]>([]);
+  const [blocked, setBlocked] = useState(false);
+  const [git, setGit] = useState(initialGit);
+  const [pushStatus, setPushStatus] = useState<PushStatus>({ state: 'idle' });
+  const [webhook, setWebhook] = useState(initialWebhook);
+  const [sendStatus, setSendStatus] = useState<SendStatus>({ state: 'idle' });
+
+  const exportedCollections = collections.filter((c) =>
+    selectedCollections.has(c.id)
+  );
 
   const handleCollectionToggle = (collectionId: string) => {
     setSelectedCollections((prev) => {
@@ -43,8 +119,10 @@ function Plugin({ collections }: { collections: VariableCollectionSummary[] }) {
   const downloadFile = (content: string, filename: string) => {
     console.log(`Downloading file: ${filename}`);
 
-    // Create a data URL for the JSON content
-    const dataUrl = `data:application/json;charset=utf-8,${encodeURIComponent(content)}`;
+    // Create a data URL typed by the file's extension
+    const ext = filename.split('.').pop() ?? '';
+    const type = MIME_TYPES[ext] ?? 'text/plain';
+    const dataUrl = `data:${type};charset=utf-8,${encodeURIComponent(content)}`;
 
     // Create a temporary link element and trigger download
     const link = document.createElement('a');
@@ -60,7 +138,18 @@ function Plugin({ collections }: { collections: VariableCollectionSummary[] }) {
   };
 
   useEffect(() => {
-    const handleDownloadZip = async ({ files, zipName }: ZipPayload) => {
+    const handleDownloadZip = async ({
+      files,
+      zipName,
+      issues = [],
+      changes,
+      blocked,
+      error,
+    }: ZipPayload) => {
+      setIssues(issues); // a failed export is listed here too
+      setChanges(changes);
+      setBlocked(Boolean(blocked));
+      if (blocked || error) return;
       try {
         const zip = new JSZip();
         for (const { filename, content } of files) {
@@ -83,12 +172,96 @@ function Plugin({ collections }: { collections: VariableCollectionSummary[] }) {
     };
 
     on('DOWNLOAD_ZIP', handleDownloadZip);
+    on(
+      'PREVIEW_FILES',
+      ({ files, issues = [], changes, blocked }: ZipPayload) => {
+        setPreviewFiles(files);
+        setBlocked(Boolean(blocked));
+        setIssues(issues);
+        setChanges(changes);
+      }
+    );
+    // Sent after an import changed the file's collections
+    on('SET_COLLECTIONS', setCollections);
 
     return () => {
       // Cleanup listeners if needed
     };
   }, []);
 
+  // Re-registered so the push uses the current settings
+  useEffect(
+    () =>
+      on(
+        'PUSH_FILES',
+        async ({ files, issues = [], changes, blocked, error }: ZipPayload) => {
+          setBlocked(Boolean(blocked));
+          setIssues(issues);
+          setChanges(changes);
+          if (error) {
+            setPushStatus({ state: 'error', message: error });
+            return;
+          }
+          if (blocked) {
+            setPushStatus({
+              state: 'error',
+              message: 'Validation errors blocked the export',
+            });
+            return;
+          }
+          try {
+            setPushStatus({
+              state: 'done',
+              result: await openPullRequest(git, files, changes),
+            });
+          } catch (err) {
+            setPushStatus({
+              state: 'error',
+              message: err instanceof Error ? err.message : String(err),
+            });
+          }
+        }
+      ),
+    [git]
+  );
+  useEffect(
+    () =>
+      on(
+        'SEND_FILES',
+        async (
+          { files, issues = [], changes, blocked, error }: ZipPayload,
+          metadata: ExportMetadata
+        ) => {
+          setBlocked(Boolean(blocked));
+          setIssues(issues);
+          setChanges(changes);
+          if (error) {
+            setSendStatus({ state: 'error', message: error });
+            return;
+          }
+          if (blocked) {
+            setSendStatus({
+              state: 'error',
+              message: 'Validation errors blocked the export',
+            });
+            return;
+          }
+          try {
+            setSendStatus({
+              state: 'done',
+              result: await sendToEndpoint(webhook, files, metadata),
+            });
+          } catch (err) {
+            setSendStatus({
+              state: 'error',
+              message: err instanceof Error ? err.message : String(err),
+            });
+          }
+        }
+      ),
+    [webhook]
+  );
+
   return (
     <Page>
       <div className={styles.cover}>
@@ -103,38 +276,171 @@ function Plugin({ collections }: { collections: VariableCollectionSummary[] }) {
       </div>
       <div className={styles.content}>
         <h1>TOKEN EXPORTER</h1>
-        <p>Select collections to export</p>
-      </div>
-      <div className={styles.collections}>
-        {collections.map((collection) => (
-          <Checkbox
-            key={collection.id}
-            id={collection.id}
-            label={`${collection.name} (${collection.modeCount} modes)`}
-            checked={selectedCollections.has(collection.id)}
-            onChange={() => handleCollectionToggle(collection.id)}
-          />
-        ))}
+        <SegmentedControl
+          value={view}
+          options={[{ value: 'export' }, { value: 'import' }]}
+          onValueChange={(value) => setView(value as 'export' | 'import')}
+        />
       </div>
-      <Group>
-        <IconButton onClick={() => {}} size="large">
-          <AiFillBulb />
-        </IconButton>
-        <Button
-          fullWidth
-          size="large"
-          color="primary"
-          startIcon={<AiFillPlayCircle />}
-          signal="success"
-          onClick={() => {
-            emit('EXPORT_COLLECTIONS', Array.from(selectedCollections));
+      {view === 'import' ? (
+        <ImportPanel
+          settings={{
+            naming: exportOptions.naming,
+            remBase: exportOptions.remBase,
+            scopeTypes: exportOptions.scopeTypes,
           }}
-        >
-          Export
-        </Button>
-      </Group>
+        />
+      ) : (
+        <Fragment>
+          <div className={styles.content}>
+            <p>Select collections to export</p>
+            <Dropdown
+              options={USAGE_OPTIONS}
+              value={exportOptions.usage}
+              onValueChange={(value) =>
+                setExportOptions({
+                  ...exportOptions,
+                  usage: value as UsageScope,
+                })
+              }
+            />
+          </div>
+          <div className={styles.collections}>
+            {collections.map((collection) => (
+              <Checkbox
+                key={collection.id}
+                id={collection.id}
+                label={`${collection.name} (${collection.modeCount} modes)`}
+                checked={selectedCollections.has(collection.id)}
+                onChange={() => handleCollectionToggle(collection.id)}
+              />
+            ))}
+          </div>
+          <VariableFilterSettings
+            collections={exportedCollections}
+            options={exportOptions}
+            onChange={setExportOptions}
+          />
+          <BaseModeSettings
+            collections={exportedCollections}
+            options={exportOptions}
+            onChange={setExportOptions}
+          />
+          <ExportSettings options={exportOptions} onChange={setExportOptions} />
+          <ThemeSettings
+            collections={exportedCollections}
+            options={exportOptions}
+            onChange={setExportOptions}
+          />
+          <div className={styles.collections}>
+            <p>Previous export for a changelog (optional)</p>
+            <input
+              type="file"
+              multiple
+              accept=".json,.zip"
+              onChange={async (event) => {
+                const input = event.currentTarget;
+                try {
+                  setPreviousExport(
+                    input.files ? await readTokenFiles(input.files) : []
+                  );
+                } catch (err) {
+                  setPreviousExport([]);
+                  setIssues([
+                    {
+                      severity: 'error',
+                      message: `Could not read the previous export: ${err instanceof Error ? err.message : String(err)}`,
+                    },
+                  ]);
+                }
+              }}
+            />
+          </div>
+          <IssueList issues={issues} blocked={blocked} />
+          <ChangeSummary changes={changes} />
+          <FilePreview files={previewFiles} onDownload={downloadFile} />
+          <PullRequestSettings
+            settings={git}
+            onChange={setGit}
+            status={pushStatus}
+            disabled={exportOptions.formats.length === 0}
+            onPush={() => {
+              setPushStatus({ state: 'pushing' });
+              emit(
+                'PUSH_EXPORT',
+                Array.from(selectedCollections),
+                exportOptions,
+                git,
+                previousExport
+              );
+            }}
+          />
+          <EndpointSettings
+            settings={webhook}
+            onChange={setWebhook}
+            status={sendStatus}
+            disabled={exportOptions.formats.length === 0}
+            onSend={() => {
+              setSendStatus({ state: 'sending' });
+              emit(
+                'SEND_EXPORT',
+                Array.from(selectedCollections),
+                exportOptions,
+                webhook,
+                previousExport
+              );
+            }}
+          />
+          <Group>
+            <IconButton
+              onClick={() => {
+                emit(
+                  'PREVIEW_EXPORT',
+                  Array.from(selectedCollections),
+                  exportOptions,
+                  previousExport
+                );
+              }}
+              size="large"
+            >
+              <AiFillEye />
+            </IconButton>
+            <Button
+              fullWidth
+              size="large"
+              color="primary"
+              startIcon={<AiFillPlayCircle />}
+              signal="success"
+              disabled={exportOptions.formats.length === 0}
+              onClick={() => {
+                emit(
+                  'EXPORT_COLLECTIONS',
+                  Array.from(selectedCollections),
+                  exportOptions,
+                  previousExport
+                );
+              }}
+            >
+              Export
+            </Button>
+          </Group>
+        </Fragment>
+      )}
     </Page>
   );
 }
 
-export default render(Plugin);
+// Dev Mode opens the inspect panel (main.ts passes `inspect`), else the exporter
+function Root(
+  props:
+    | { inspect: true; tokens: BoundToken[] }
+    | ({ inspect?: false } & Parameters<typeof Plugin>[0])
+) {
+  return props.inspect ? (
+    <InspectPanel tokens={props.tokens} />
+  ) : (
+    <Plugin {...props} />
+  );
+}
+
+export default render(Root);
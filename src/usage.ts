@@ -0,0 +1,76 @@
+// usage.ts — the variables bound to nodes in a usage scope
+// (ExportOptions.usage), for exports of just what a file or feature uses.
+//
+// Counts bindings on the nodes themselves and on the paint / text / effect
+// styles they use. Alias targets are added later by the pipeline. With
+// documentAccess "dynamic-page" other pages are loaded one at a time.
+
+import { boundAliases } from './inspect';
+import { UsageScope } from './types';
+
+const STYLE_FIELDS = [
+  'fillStyleId',
+  'strokeStyleId',
+  'textStyleId',
+  'effectStyleId',
+] as const;
+type StyleField = (typeof STYLE_FIELDS)[number];
+
+export async function collectUsedVariableIds(
+  scope: Exclude<UsageScope, 'all'>
+): Promise<Set<string>> {
+  const ids = new Set<string>();
+  const styleIds = new Set<string>();
+
+  for (const node of await nodesIn(scope)) {
+    for (const { id } of boundAliases(node.boundVariables ?? {})) ids.add(id);
+    for (const field of STYLE_FIELDS) {
+      const styleId =
+        field in node
+          ? (node as SceneNode & Record<StyleField, unknown>)[field]
+          : undefined;
+      if (typeof styleId === 'string' && styleId) styleIds.add(styleId);
+    }
+    // Text with several styles reports figma.mixed above
+    if (node.type === 'TEXT') {
+      for (const segment of node.getStyledTextSegments([
+        'textStyleId',
+        'fillStyleId',
+      ])) {
+        if (segment.textStyleId) styleIds.add(segment.textStyleId);
+        if (segment.fillStyleId) styleIds.add(segment.fillStyleId);
+      }
+    }
+  }
+
+  for (const styleId of Array.from(styleIds)) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (style && 'boundVariables' in style && style.boundVariables) {
+      for (const { id } of boundAliases(style.boundVariables)) ids.add(id);
+    }
+  }
+
+  return ids;
+}
+
+async function nodesIn(
+  scope: Exclude<UsageScope, 'all'>
+): Promise<SceneNode[]> {
+  switch (scope) {
+    case 'selection':
+      return figma.currentPage.selection.flatMap((node) => [
+        node,
+        ...('findAll' in node ? node.findAll() : []),
+      ]);
+    case 'page':
+      return figma.currentPage.findAll();
+    case 'document': {
+      const nodes: SceneNode[] = [];
+      for (const page of figma.root.children) {
+        await page.loadAsync();
+        nodes.push(...page.findAll());
+      }
+      return nodes;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SourceCollection, SourceVariable } from './types';
+import { validateVariables } from './validate';
+
+const collection: SourceCollection = {
+  id: 'c',
+  name: 'Tokens',
+  modes: [{ modeId: 'm', name: 'Value' }],
+  defaultModeId: 'm',
+  remote: false,
+};
+
+const paths = new Map<string, string>(); // variable id -> token path
+
+const variable = (id: string, name: string, path: string): SourceVariable => {
+  paths.set(id, path);
+  return {
+    id,
+    name,
+    description: '',
+    remote: false,
+    variableCollectionId: 'c',
+    resolvedType: 'FLOAT',
+    valuesByMode: { m: 1 },
+    scopes: ['ALL_SCOPES'],
+    codeSyntax: {},
+    hiddenFromPublishing: false,
+  };
+};
+
+const validate = (variables: SourceVariable[]) =>
+  validateVariables([collection], variables, (v) => paths.get(v.id) ?? '');
+
+test('reports two variables on the same path', () => {
+  const [issue] = validate([
+    variable('1', 'bg/surface', 'bg.surface'),
+    variable('2', 'Bg/Surface', 'bg.surface'),
+  ]);
+  assert.equal(
+    issue.message,
+    'Tokens: "bg/surface" and "Bg/Surface" export as bg.surface; only the last one is kept'
+  );
+});
+
+test('reports a token that is also a group', () => {
+  const issues = validate([
+    variable('1', 'bg/surface/raised', 'bg.surface.raised'),
+    variable('2', 'bg/surface', 'bg.surface'),
+  ]);
+  assert.equal(issues.length, 1);
+  assert.equal(
+    issues[0].message,
+    'Tokens: bg.surface is both a token and a group (bg.surface.raised); the token is dropped'
+  );
+});
+
+test('reports an alias cycle once', () => {
+  const alias = (id: string) => ({ type: 'VARIABLE_ALIAS' as const, id });
+  const a = { ...variable('1', 'a', 'a'), valuesByMode: { m: alias('2') } };
+  const b = { ...variable('2', 'b', 'b'), valuesByMode: { m: alias('1') } };
+  const issues = validate([a, b]);
+  assert.equal(issues.length, 1);
+  assert.equal(issues[0].message, 'Alias cycle: "a" → "b" → "a"');
+});
+
+test('leaves paths that only differ by separator to the formats', () => {
+  assert.deepEqual(
+    validate([
+      variable('1', 'bg/primary color', 'bg.primary.color'),
+      variable('2', 'bg/primary-color', 'bg.primary-color'),
+    ]),
+    []
+  );
+});
+
+test('accepts distinct names', () => {
+  assert.deepEqual(
+    validate([
+      variable('1', 'bg/surface', 'bg.surface'),
+      variable('2', 'bg/raised', 'bg.raised'),
+    ]),
+    []
+  );
+});
@@ -0,0 +1,148 @@
+// validate.ts — pre-export checks on the Figma variables being exported.
+//
+// Catches what the tree builder would otherwise resolve silently:
+//  - path collisions: two variables named onto the same token path
+//    (setLeafToken keeps the last one)
+//  - group/leaf conflicts: a token path that is also a group of other tokens
+//    (setLeafToken keeps the group)
+//  - aliases to variables that do not exist (locally or in a library)
+//  - alias cycles
+//  - aliases whose target has a different resolvedType
+//  - aliases to variables the export filter leaves out (warning)
+//
+// Paths that only differ by separator or case are fine in the tree; the
+// formats that would give them one name report it themselves.
+
+import { isVariableAlias } from './dtcg';
+import { ExportIssue, SourceCollection, SourceVariable } from './types';
+
+export function validateVariables(
+  collections: SourceCollection[],
+  allVariables: SourceVariable[],
+  pathOf: (variable: SourceVariable) => string,
+  include: (variable: SourceVariable) => boolean = () => true
+): ExportIssue[] {
+  const issues: ExportIssue[] = [];
+  const byId = new Map(allVariables.map((v) => [v.id, v]));
+  const exported = new Set(collections.map((c) => c.id));
+
+  for (const collection of collections) {
+    const variables = allVariables.filter(
+      (v) => v.variableCollectionId === collection.id && include(v)
+    );
+
+    // Path collisions
+    const byPath = new Map<string, SourceVariable[]>();
+    for (const variable of variables) {
+      const path = pathOf(variable);
+      byPath.set(path, [...(byPath.get(path) ?? []), variable]);
+    }
+    byPath.forEach((same, path) => {
+      if (same.length < 2) return;
+      issues.push({
+        severity: 'error',
+        message: `${collection.name}: ${listNames(same)} export as ${path}; only the last one is kept`,
+        path,
+      });
+    });
+
+    // Group/leaf conflicts
+    const paths = Array.from(byPath.keys());
+    for (const path of paths) {
+      const child = paths.find((p) => p.startsWith(`${path}.`));
+      if (!child) continue;
+      issues.push({
+        severity: 'error',
+        message: `${collection.name}: ${path} is both a token and a group (${child}); the token is dropped`,
+        path,
+      });
+    }
+
+    // Alias targets and types
+    for (const variable of variables) {
+      const reported = new Set<string>();
+      for (const value of Object.values(variable.valuesByMode)) {
+        if (!isVariableAlias(value) || reported.has(value.id)) continue;
+        reported.add(value.id);
+        const target = byId.get(value.id);
+        if (!target) {
+          issues.push({
+            severity: 'error',
+            message: `${collection.name}: "${variable.name}" aliases ${value.id}, which does not exist locally or in an available library`,
+            path: pathOf(variable),
+          });
+        } else if (target.resolvedType !== variable.resolvedType) {
+          issues.push({
+            severity: 'error',
+            message: `${collection.name}: "${variable.name}" (${variable.resolvedType}) aliases "${target.name}" (${target.resolvedType})`,
+            path: pathOf(variable),
+          });
+        } else if (
+          exported.has(target.variableCollectionId) &&
+          !include(target)
+        ) {
+          issues.push({
+            severity: 'warning',
+            message: `${collection.name}: "${variable.name}" aliases "${target.name}", which the filter leaves out; resolve aliases to inline its value`,
+            path: pathOf(variable),
+          });
+        }
+      }
+    }
+  }
+
+  issues.push(
+    ...findAliasCycles(collections, allVariables.filter(include), byId)
+  );
+  return issues;
+}
+
+// Depth-first search over alias edges (any mode); each cycle reported once
+function findAliasCycles(
+  collections: SourceCollection[],
+  allVariables: SourceVariable[],
+  byId: Map<string, SourceVariable>
+): ExportIssue[] {
+  const issues: ExportIssue[] = [];
+  const collectionIds = new Set(collections.map((c) => c.id));
+  const done = new Set<string>();
+  const reported = new Set<string>();
+
+  const visit = (variable: SourceVariable, stack: SourceVariable[]) => {
+    const start = stack.indexOf(variable);
+    if (start !== -1) {
+      const cycle = stack.slice(start);
+      const key = cycle
+        .map((v) => v.id)
+        .sort()
+        .join();
+      if (!reported.has(key)) {
+        reported.add(key);
+        issues.push({
+          severity: 'error',
+          message: `Alias cycle: ${[...cycle, variable].map((v) => `"${v.name}"`).join(' → ')}`,
+        });
+      }
+      return;
+    }
+    if (done.has(variable.id)) return;
+    for (const value of Object.values(variable.valuesByMode)) {
+      const target = isVariableAlias(value) ? byId.get(value.id) : undefined;
+      if (target) visit(target, [...stack, variable]);
+    }
+    done.add(variable.id);
+  };
+
+  for (const variable of allVariables) {
+    if (collectionIds.has(variable.variableCollectionId)) visit(variable, []);
+  }
+  return issues;
+}
+
+// "a" and "b" / "a", "b" and "c"
+function listNames(variables: SourceVariable[]): string {
+  const names = variables.map((v) => `"${v.name}"`);
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : names.join('');
+}
@@ -0,0 +1,111 @@
+// webhook.ts — UI-side: POSTs an export to a configurable endpoint (e.g. an
+// internal token-ingest service) instead of zipping it for download.
+//
+// Body: { metadata, files } where files is the same array exportCollections
+// builds and metadata carries a SHA-256 per file so the receiver can skip
+// unchanged content. The endpoint's host has to be listed in
+// networkAccess.allowedDomains (package.json).
+
+import {
+  ExportFile,
+  ExportMetadata,
+  WebhookResult,
+  WebhookSettings,
+} from './types';
+
+const RETRY_DELAY_MS = 1000; // doubled after every failed attempt
+const MAX_BODY_LENGTH = 2000; // of the response shown in the UI
+
+export async function sendToEndpoint(
+  settings: WebhookSettings,
+  files: ExportFile[],
+  metadata: ExportMetadata
+): Promise<WebhookResult> {
+  const url = settings.url.trim();
+  if (!url) throw new Error('No endpoint URL set');
+  // e.g. usage "selection" with nothing selected
+  if (files.length === 0) throw new Error('Nothing to send');
+
+  const hashes: Record<string, string> = {};
+  for (const file of files) hashes[file.filename] = await sha256(file.content);
+  const body = JSON.stringify({ metadata: { ...metadata, hashes }, files });
+  const headers = {
+    'Content-Type': 'application/json',
+    ...parseHeaders(settings.headers),
+  };
+
+  if (settings.dryRun) {
+    // Header values are left out, they usually hold credentials
+    return {
+      dryRun: true,
+      attempts: 0,
+      body: JSON.stringify(
+        { url, headers: Object.keys(headers), body: JSON.parse(body) },
+        null,
+        2
+      ),
+    };
+  }
+
+  let attempts = 0;
+  for (;;) {
+    attempts++;
+    const retriesLeft = attempts <= settings.retries;
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'POST', headers, body });
+    } catch (err) {
+      // Network error / blocked by networkAccess
+      if (!retriesLeft) throw err;
+      await delay(attempts);
+      continue;
+    }
+    if (retriesLeft && isRetryable(response.status)) {
+      await delay(attempts);
+      continue;
+    }
+    const text = await response.text();
+    return {
+      dryRun: false,
+      status: response.status,
+      statusText: response.statusText,
+      attempts,
+      body:
+        text.length > MAX_BODY_LENGTH
+          ? `${text.slice(0, MAX_BODY_LENGTH)}…`
+          : text,
+    };
+  }
+}
+
+// "Name: value" lines; blank lines and lines without a colon are ignored
+export function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':');
+    if (index <= 0) continue;
+    const name = line.slice(0, index).trim();
+    if (name) headers[name] = line.slice(index + 1).trim();
+  }
+  return headers;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function delay(attempt: number): Promise<void> {
+  return new Promise((resolve) =>
+    setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1))
+  );
+}
+
+async function sha256(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(content)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}